@@ -0,0 +1,443 @@
+/**
+ * In-memory stand-in for the Privacy Cash program and the RPC node
+ * Keeps one Poseidon tree per pool, the nullifier accounts and a lookup
+ * table, and answers the Connection calls the service makes from them.
+ * Proofs are NOT verified and no funds move: transact only checks the root
+ * and nullifiers the way the program does, then appends the outputs.
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  AccountInfo,
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionError,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  AccountType,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  ExtensionType,
+  getAssociatedTokenAddressSync,
+  getMintLen,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TRANSFER_FEE_CONFIG_SIZE,
+  TransferFeeConfigLayout,
+} from '@solana/spl-token';
+import BN from 'bn.js';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import type * as hasher from '@lightprotocol/hasher.rs';
+import { config } from '../../src/config/env.js';
+import { tokenRegistry } from '../../src/services/token-registry.js';
+import { createMerkleTree, MerkleTree } from '../../src/services/merkle.js';
+import { parseToBytesArray } from '../../src/services/proof.js';
+import {
+  decodeTransactInstruction,
+  findCrossCheckNullifierPDAs,
+  findNullifierPDAs,
+} from '../../src/services/transaction.js';
+import {
+  getProgramAccounts,
+  getSplTreeAccount,
+  MERKLE_TREE_DEPTH,
+} from '../../src/utils/constants.js';
+
+// Same layout decodeTreeAccount reads
+const NEXT_INDEX_OFFSET = 8 + 32;
+const ROOT_OFFSET = NEXT_INDEX_OFFSET + 8 + 32 * MERKLE_TREE_DEPTH;
+const ROOT_HISTORY_OFFSET = ROOT_OFFSET + 32;
+const ROOT_HISTORY_SIZE = 100;
+const ROOT_INDEX_OFFSET = ROOT_HISTORY_OFFSET + 32 * ROOT_HISTORY_SIZE;
+
+// Transact instruction data: root and the length-prefixed encrypted outputs after extAmount and fee
+const ROOT_DATA_OFFSET = 8 + 64 + 128 + 64;
+const ENCRYPTED_OUTPUTS_DATA_OFFSET = 360 + 4 * 32 + 16;
+
+// Compute units a successful simulated transact reports
+const SIMULATED_UNITS = 250_000;
+
+// Per-slot priority fees (micro-lamports per CU) reported for any accounts
+const RECENT_PRIORITIZATION_FEES = [0, 0, 1_000, 5_000, 10_000, 20_000, 50_000, 100_000];
+
+export interface MockPool {
+  tree: MerkleTree;
+  // Decimal commitments and hex encrypted outputs, in insertion order
+  commitments: string[];
+  outputs: string[];
+  // Oldest first, capped like the on-chain ring buffer
+  rootHistory: string[];
+}
+
+// transferChecked instruction discriminator (SPL Token and Token-2022)
+const TRANSFER_CHECKED = 12;
+
+export interface MockTokenTransfer {
+  destination: string; // Token account
+  amount: bigint;
+  signature: string;
+}
+
+export class MockChain {
+  private pools = new Map<string, MockPool>();
+  // Nullifier PDAs created by transact calls
+  private nullifierAccounts = new Set<string>();
+  private treeAccounts = new Map<string, string | undefined>();
+  // Classic SPL Token mint accounts for the registry's tokens, by mint
+  private mintAccounts = new Map<string, number>();
+  // Mints served as Token-2022 mints with a transfer fee (basis points)
+  private transferFees = new Map<string, number>();
+  // Slot each executed transaction landed in, by signature
+  private signatures = new Map<string, number>();
+  private slot = 1;
+
+  // transferChecked instructions of executed plain token transactions, in order
+  readonly tokenTransfers: MockTokenTransfer[] = [];
+
+  readonly lookupTable: AddressLookupTableAccount;
+
+  constructor(private readonly lightWasm: hasher.LightWasm) {
+    const { treeAccount, treeTokenAccount, globalConfigAccount } = getProgramAccounts();
+
+    // Every pool's accounts, so SPL transactions fit like they do with the real table
+    const splAddresses: PublicKey[] = [TOKEN_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID];
+
+    this.treeAccounts.set(treeAccount.toBase58(), undefined);
+    for (const token of tokenRegistry.getAllTokens()) {
+      if (token.name.toLowerCase() !== 'sol') {
+        const splTreeAccount = getSplTreeAccount(token.mint);
+        this.treeAccounts.set(splTreeAccount.toBase58(), token.name.toLowerCase());
+        this.mintAccounts.set(token.mint.toBase58(), token.decimals);
+        splAddresses.push(
+          token.mint,
+          splTreeAccount,
+          getAssociatedTokenAddressSync(token.mint, globalConfigAccount, true),
+          getAssociatedTokenAddressSync(token.mint, config.feeRecipient, true)
+        );
+      }
+    }
+
+    this.lookupTable = new AddressLookupTableAccount({
+      key: config.altAddress,
+      state: {
+        deactivationSlot: BigInt('0xffffffffffffffff'),
+        lastExtendedSlot: 0,
+        lastExtendedSlotStartIndex: 0,
+        addresses: [
+          treeAccount,
+          treeTokenAccount,
+          globalConfigAccount,
+          config.feeRecipient,
+          SystemProgram.programId,
+          ComputeBudgetProgram.programId,
+          ...splAddresses,
+        ],
+      },
+    });
+  }
+
+  /**
+   * Serve a registry token's mint as a Token-2022 mint charging a transfer fee
+   */
+  setTransferFee(mint: PublicKey, transferFeeBasisPoints: number): void {
+    this.transferFees.set(mint.toBase58(), transferFeeBasisPoints);
+  }
+
+  /**
+   * Pool of a token (undefined = SOL), created empty on first use
+   */
+  pool(tokenName?: string): MockPool {
+    const key = tokenName ?? 'sol';
+    let pool = this.pools.get(key);
+    if (!pool) {
+      const tree = createMerkleTree(this.lightWasm);
+      pool = { tree, commitments: [], outputs: [], rootHistory: [tree.root()] };
+      this.pools.set(key, pool);
+    }
+    return pool;
+  }
+
+  /**
+   * Run a transact instruction against a token's pool (undefined = SOL)
+   * Rejects unknown roots and spent nullifiers like the program does
+   * Returns the signature it is recorded under (random unless given)
+   */
+  transact(data: Buffer, tokenName?: string, signature: string = bs58.encode(randomBytes(64))): string {
+    const { pool, nullifierPDAs, outputCommitments, encryptedOutputs } = this.checkTransact(data, tokenName);
+
+    nullifierPDAs.forEach(pda => this.nullifierAccounts.add(pda.toBase58()));
+    outputCommitments.forEach((commitment, i) => {
+      const leaf = new BN(commitment, 'le').toString(10);
+      pool.tree.insert(leaf);
+      pool.commitments.push(leaf);
+      pool.outputs.push(encryptedOutputs[i].toString('hex'));
+    });
+    pool.rootHistory = [...pool.rootHistory, pool.tree.root()].slice(-ROOT_HISTORY_SIZE);
+    this.signatures.set(signature, this.slot);
+    this.slot++;
+    return signature;
+  }
+
+  /**
+   * Check a signed transaction's signatures and run its transact instruction
+   * (the pool is picked from the tree account it passes)
+   */
+  execute(transaction: VersionedTransaction): string {
+    const { message } = transaction;
+    const messageBytes = message.serialize();
+
+    for (let i = 0; i < message.header.numRequiredSignatures; i++) {
+      const signer = message.staticAccountKeys[i];
+      if (!nacl.sign.detached.verify(messageBytes, transaction.signatures[i], signer.toBytes())) {
+        throw new Error(`Missing or invalid signature for ${signer.toBase58()}`);
+      }
+    }
+
+    const signature = bs58.encode(transaction.signatures[0]);
+    const transfers = this.findTokenTransfers(transaction);
+    if (transfers) {
+      // No balances are kept, so a plain token transaction only records its transfers
+      this.tokenTransfers.push(...transfers.map(transfer => ({ ...transfer, signature })));
+      this.signatures.set(signature, this.slot);
+      this.slot++;
+      return signature;
+    }
+
+    const { data, tokenName } = this.findTransact(transaction);
+    return this.transact(data, tokenName, signature);
+  }
+
+  /**
+   * Dry-run a transaction's transact instruction without checking signatures
+   * or changing any state, reporting failures the way simulateTransaction does
+   */
+  simulate(transaction: VersionedTransaction): { err: TransactionError | null; logs: string[]; unitsConsumed: number } {
+    if (this.findTokenTransfers(transaction)) {
+      return { err: null, logs: [], unitsConsumed: SIMULATED_UNITS / 10 };
+    }
+
+    const logs = [`Program ${config.programId.toBase58()} invoke [1]`];
+    try {
+      const { data, tokenName } = this.findTransact(transaction);
+      this.checkTransact(data, tokenName);
+    } catch (error: any) {
+      logs.push(
+        `Program log: AnchorError occurred. Error Code: MockTransactFailed. Error Number: 6000. Error Message: ${error.message}.`,
+        `Program ${config.programId.toBase58()} failed: custom program error: 0x1770`
+      );
+      return { err: { InstructionError: [1, { Custom: 6000 }] }, logs, unitsConsumed: SIMULATED_UNITS / 2 };
+    }
+    logs.push(`Program ${config.programId.toBase58()} success`);
+    return { err: null, logs, unitsConsumed: SIMULATED_UNITS };
+  }
+
+  private checkTransact(data: Buffer, tokenName?: string) {
+    const decoded = decodeTransactInstruction(data);
+    if (!decoded) {
+      throw new Error('Not a transact instruction');
+    }
+    if (decoded.isSpl !== Boolean(tokenName)) {
+      throw new Error(`${decoded.isSpl ? 'SPL' : 'SOL'} transact sent to the ${tokenName ?? 'sol'} pool`);
+    }
+
+    const pool = this.pool(tokenName);
+    const root = new BN(data.subarray(ROOT_DATA_OFFSET, ROOT_DATA_OFFSET + 32), 'le').toString(10);
+    if (!pool.rootHistory.includes(root)) {
+      throw new Error('Unknown Merkle root');
+    }
+
+    const proof = { inputNullifiers: decoded.inputNullifiers.map(n => Array.from(n)) } as Parameters<typeof findNullifierPDAs>[0];
+    const { nullifier0PDA, nullifier1PDA } = findNullifierPDAs(proof);
+    const { nullifier2PDA, nullifier3PDA } = findCrossCheckNullifierPDAs(proof);
+    if ([nullifier0PDA, nullifier1PDA, nullifier2PDA, nullifier3PDA].some(pda => this.nullifierAccounts.has(pda.toBase58()))) {
+      throw new Error('Nullifier already spent');
+    }
+
+    return {
+      pool,
+      nullifierPDAs: [nullifier0PDA, nullifier1PDA],
+      outputCommitments: decoded.outputCommitments,
+      encryptedOutputs: readEncryptedOutputs(data),
+    };
+  }
+
+  /**
+   * transferChecked instructions of a transaction that only calls the token,
+   * associated token account and compute budget programs (null otherwise)
+   */
+  private findTokenTransfers(transaction: VersionedTransaction): Omit<MockTokenTransfer, 'signature'>[] | null {
+    const { message } = transaction;
+    const accountKeys = message.getAccountKeys({ addressLookupTableAccounts: [this.lookupTable] });
+    const tokenPrograms = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+    const allowedPrograms = [...tokenPrograms, ASSOCIATED_TOKEN_PROGRAM_ID, ComputeBudgetProgram.programId];
+
+    const programIds = message.compiledInstructions.map(ix => accountKeys.get(ix.programIdIndex)!);
+    if (!programIds.every(programId => allowedPrograms.some(allowed => allowed.equals(programId)))) {
+      return null;
+    }
+
+    return message.compiledInstructions
+      .filter((ix, i) => tokenPrograms.some(program => program.equals(programIds[i])) && ix.data[0] === TRANSFER_CHECKED)
+      .map(ix => ({
+        destination: accountKeys.get(ix.accountKeyIndexes[2])!.toBase58(),
+        amount: Buffer.from(ix.data).readBigUInt64LE(1),
+      }));
+  }
+
+  /**
+   * The Privacy Cash instruction of a transaction and the pool its tree account belongs to
+   */
+  private findTransact(transaction: VersionedTransaction): { data: Buffer; tokenName?: string } {
+    const { message } = transaction;
+    const accountKeys = message.getAccountKeys({ addressLookupTableAccounts: [this.lookupTable] });
+    const instruction = message.compiledInstructions.find(ix => accountKeys.get(ix.programIdIndex)?.equals(config.programId));
+    if (!instruction) {
+      throw new Error('No Privacy Cash instruction in transaction');
+    }
+
+    const treeAccount = accountKeys.get(instruction.accountKeyIndexes[0])?.toBase58();
+    if (!treeAccount || !this.treeAccounts.has(treeAccount)) {
+      throw new Error('Transact instruction does not start with a tree account');
+    }
+
+    return { data: Buffer.from(instruction.data), tokenName: this.treeAccounts.get(treeAccount) };
+  }
+
+  /**
+   * The Connection calls the service makes, answered from this chain
+   * Sent transactions are executed right away and are finalized at once;
+ * simulations report a fixed compute usage and recent priority fees are fixed
+   * History lookups find no spend transactions
+   */
+  createConnection(): Connection {
+    const stub: Partial<Connection> = {
+      getAddressLookupTable: async (address: PublicKey) => ({
+        context: { slot: this.slot },
+        value: address.equals(this.lookupTable.key) ? this.lookupTable : null,
+      }),
+      getLatestBlockhash: async () => ({
+        blockhash: bs58.encode(randomBytes(32)),
+        lastValidBlockHeight: this.slot + 150,
+      }),
+      getAccountInfo: async (address: PublicKey) => this.getAccountInfo(address),
+      getMultipleAccountsInfo: async (addresses: PublicKey[]) => addresses.map(address => this.getAccountInfo(address)),
+      sendTransaction: (async (transaction: VersionedTransaction) => this.execute(transaction)) as Connection['sendTransaction'],
+      simulateTransaction: (async (transaction: VersionedTransaction) => ({
+        context: { slot: this.slot },
+        value: this.simulate(transaction),
+      })) as Connection['simulateTransaction'],
+      getEpochInfo: async () => ({
+        epoch: 0,
+        slotIndex: this.slot,
+        slotsInEpoch: 432_000,
+        absoluteSlot: this.slot,
+      }),
+      getRecentPrioritizationFees: async () => RECENT_PRIORITIZATION_FEES.map((prioritizationFee, i) => ({
+        slot: this.slot - i,
+        prioritizationFee,
+      })),
+      getSignatureStatuses: (async (signatures: string[]) => ({
+        context: { slot: this.slot },
+        value: signatures.map(signature => {
+          const slot = this.signatures.get(signature);
+          return slot === undefined
+            ? null
+            : { slot, confirmations: null, err: null, confirmationStatus: 'finalized' as const };
+        }),
+      })) as Connection['getSignatureStatuses'],
+      getSignaturesForAddress: async () => [],
+      getTransaction: (async () => null) as Connection['getTransaction'],
+    };
+    return stub as Connection;
+  }
+
+  private getAccountInfo(address: PublicKey): AccountInfo<Buffer> | null {
+    const key = address.toBase58();
+
+    if (this.treeAccounts.has(key)) {
+      return programAccount(this.encodeTreeAccount(this.pool(this.treeAccounts.get(key))));
+    }
+    if (this.nullifierAccounts.has(key)) {
+      return programAccount(Buffer.alloc(8));
+    }
+    if (this.mintAccounts.has(key)) {
+      const transferFee = this.transferFees.get(key);
+      return transferFee === undefined
+        ? mintAccount(this.mintAccounts.get(key)!)
+        : transferFeeMintAccount(this.mintAccounts.get(key)!, transferFee);
+    }
+    return null;
+  }
+
+  private encodeTreeAccount(pool: MockPool): Buffer {
+    const data = Buffer.alloc(ROOT_INDEX_OFFSET + 8);
+    const toBytes = (root: string) => Buffer.from(parseToBytesArray([root])[0]);
+
+    data.writeBigUInt64LE(BigInt(pool.tree.size), NEXT_INDEX_OFFSET);
+    toBytes(pool.tree.root()).copy(data, ROOT_OFFSET);
+    pool.rootHistory.forEach((root, i) => toBytes(root).copy(data, ROOT_HISTORY_OFFSET + 32 * i));
+    data.writeBigUInt64LE(BigInt(pool.rootHistory.length - 1), ROOT_INDEX_OFFSET);
+
+    return data;
+  }
+}
+
+function programAccount(data: Buffer): AccountInfo<Buffer> {
+  return { data, owner: config.programId, lamports: 1_000_000, executable: false, rentEpoch: 0 };
+}
+
+function mintAccount(decimals: number): AccountInfo<Buffer> {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode({
+    mintAuthorityOption: 0,
+    mintAuthority: PublicKey.default,
+    supply: BigInt(0),
+    decimals,
+    isInitialized: true,
+    freezeAuthorityOption: 0,
+    freezeAuthority: PublicKey.default,
+  }, data);
+  return { data, owner: TOKEN_PROGRAM_ID, lamports: 1_000_000, executable: false, rentEpoch: 0 };
+}
+
+function transferFeeMintAccount(decimals: number, transferFeeBasisPoints: number): AccountInfo<Buffer> {
+  const data = Buffer.alloc(getMintLen([ExtensionType.TransferFeeConfig]));
+  mintAccount(decimals).data.copy(data);
+  data.writeUInt8(AccountType.Mint, ACCOUNT_SIZE);
+
+  // One TLV entry: type, length, TransferFeeConfig
+  const tlv = ACCOUNT_SIZE + 1;
+  data.writeUInt16LE(ExtensionType.TransferFeeConfig, tlv);
+  data.writeUInt16LE(TRANSFER_FEE_CONFIG_SIZE, tlv + 2);
+  const fee = { epoch: BigInt(0), maximumFee: BigInt('18446744073709551615'), transferFeeBasisPoints };
+  TransferFeeConfigLayout.encode({
+    transferFeeConfigAuthority: PublicKey.default,
+    withdrawWithheldAuthority: PublicKey.default,
+    withheldAmount: BigInt(0),
+    olderTransferFee: fee,
+    newerTransferFee: fee,
+  }, data, tlv + 4);
+
+  return { data, owner: TOKEN_2022_PROGRAM_ID, lamports: 1_000_000, executable: false, rentEpoch: 0 };
+}
+
+function readEncryptedOutputs(data: Buffer): [Buffer, Buffer] {
+  let offset = ENCRYPTED_OUTPUTS_DATA_OFFSET;
+  const read = () => {
+    const length = data.readUInt32LE(offset);
+    const output = Buffer.from(data.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+    if (output.length !== length) {
+      throw new Error('Truncated encrypted output');
+    }
+    return output;
+  };
+  return [read(), read()];
+}
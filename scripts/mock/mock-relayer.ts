@@ -0,0 +1,142 @@
+/**
+ * Mock Privacy Cash relayer backed by a MockChain
+ * Serves the endpoints HttpRelayerClient calls (SPL variants take ?token=
+ * or mintAddress like the real relayer) and applies relayed deposits and
+ * withdrawals to the chain right away.
+ */
+
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { tokenRegistry } from '../../src/services/token-registry.js';
+import { deserializeTransaction } from '../../src/services/transaction.js';
+import type { RelayerConfig } from '../../src/services/relayer.js';
+import { MockChain } from './mock-chain.js';
+
+export const MOCK_RELAYER_CONFIG: RelayerConfig = {
+  withdraw_fee_rate: 0.0035,
+  withdraw_rent_fee: 0.006,
+  deposit_fee_rate: 0,
+  usdc_withdraw_rent_fee: 0.85,
+  rent_fees: { usdc: 0.85, usdt: 0.85, zec: 0.01, ore: 0.005, store: 0.1 },
+};
+
+export interface MockRelayer {
+  url: string;
+  close(): Promise<void>;
+}
+
+export function createMockRelayer(chain: MockChain, relayerConfig: RelayerConfig = MOCK_RELAYER_CONFIG): express.Express {
+  const app = express();
+  app.use(express.json({ limit: '1mb' }));
+
+  app.get('/merkle/root', (req, res) => {
+    const { tree } = chain.pool(tokenParam(req));
+    res.json({ root: tree.root(), nextIndex: tree.size });
+  });
+
+  app.get('/merkle/proof/:commitment', (req, res) => {
+    const { tree } = chain.pool(tokenParam(req));
+    const index = tree.indexOf(req.params.commitment);
+    if (index === -1) {
+      res.status(404).json({ error: 'Commitment not found' });
+      return;
+    }
+    res.json(tree.path(index));
+  });
+
+  app.get('/utxos/range', (req, res) => {
+    const { outputs, commitments } = chain.pool(tokenParam(req));
+    const start = Number(req.query.start) || 0;
+    const end = Number(req.query.end) || outputs.length;
+    res.json({
+      encrypted_outputs: outputs.slice(start, end),
+      commitments: commitments.slice(start, end),
+      hasMore: end < outputs.length,
+      total: outputs.length,
+    });
+  });
+
+  app.post('/utxos/indices', (req, res) => {
+    const requested: string[] = req.body.encrypted_outputs ?? [];
+    const pools = tokenRegistry.getAllTokens().map(t => chain.pool(t.name.toLowerCase() === 'sol' ? undefined : t.name.toLowerCase()));
+    res.json({
+      indices: requested.map(output => {
+        const hex = toHex(output);
+        const pool = pools.find(p => p.outputs.includes(hex));
+        return pool ? pool.outputs.indexOf(hex) : null;
+      }),
+    });
+  });
+
+  // Outputs come hex-encoded from deposits and base64-encoded from withdrawals (which may contain '/')
+  app.get(/^\/utxos\/check\/(.+)$/, (req, res) => {
+    const { outputs } = chain.pool(tokenParam(req));
+    res.json({ exists: outputs.includes(toHex(req.params[0])) });
+  });
+
+  app.get('/config', (_req, res) => {
+    res.json(relayerConfig);
+  });
+
+  const deposit: express.RequestHandler = (req, res) => {
+    try {
+      const signature = chain.execute(deserializeTransaction(req.body.signedTransaction));
+      res.json({ signature, success: true });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  };
+
+  const withdraw: express.RequestHandler = (req, res) => {
+    try {
+      const signature = chain.transact(Buffer.from(req.body.serializedProof, 'base64'), mintToken(req.body.mintAddress));
+      res.json({ signature, success: true });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  };
+
+  app.post('/deposit', deposit);
+  app.post('/deposit/spl', deposit);
+  app.post('/withdraw', withdraw);
+  app.post('/withdraw/spl', withdraw);
+
+  return app;
+}
+
+/**
+ * Serve a mock relayer on localhost (port 0 = any free port)
+ */
+export function startMockRelayer(chain: MockChain, port = 0): Promise<MockRelayer> {
+  const app = createMockRelayer(chain);
+
+  return new Promise(resolve => {
+    const server = app.listen(port, '127.0.0.1', () => {
+      const { port: boundPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${boundPort}`,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+function tokenParam(req: express.Request): string | undefined {
+  const token = typeof req.query.token === 'string' ? req.query.token.toLowerCase() : undefined;
+  return token && token !== 'sol' ? token : undefined;
+}
+
+function mintToken(mintAddress?: string): string | undefined {
+  if (!mintAddress) {
+    return undefined;
+  }
+  const token = tokenRegistry.getTokenByMint(mintAddress);
+  if (!token) {
+    throw new Error(`Unsupported mint: ${mintAddress}`);
+  }
+  return token.name.toLowerCase();
+}
+
+function toHex(output: string): string {
+  return /^[0-9a-f]+$/i.test(output) ? output.toLowerCase() : Buffer.from(output, 'base64').toString('hex');
+}
@@ -58,7 +58,7 @@ async function main() {
         body: JSON.stringify({
           publicKey: keypair.publicKey.toBase58(),
           signature: signatureBase64,
-          amount: amount,
+          uiAmount: String(amount),
         }),
       });
 
@@ -70,11 +70,12 @@ async function main() {
 
       const prepareData = await prepareRes.json();
       console.log(`   ✅ Deposit prepared`);
-      console.log(`   📝 Amount: ${prepareData.metadata.amount / LAMPORTS_PER_SOL} SOL`);
+      console.log(`   📝 Amount: ${prepareData.metadata.uiAmount} SOL`);
       
       if (prepareData.metadata.fee) {
-        console.log(`   💰 Fee: ${prepareData.metadata.fee / LAMPORTS_PER_SOL} SOL (${(prepareData.metadata.feeRate * 100).toFixed(2)}%)`);
-        console.log(`   📉 Amount after fee: ${prepareData.metadata.amountAfterFee / LAMPORTS_PER_SOL} SOL`);
+        console.log(`   💰 Fee: ${prepareData.metadata.uiFee} SOL (${(prepareData.metadata.feeRate * 100).toFixed(2)}%)`);
+        console.log(`   🛡️  Amount shielded: ${prepareData.metadata.uiAmountShielded} SOL`);
+        console.log(`   💸 Total cost: ${prepareData.metadata.uiTotalCost} SOL`);
         
         // Verify fee calculation (1% with minimum 0.001 SOL)
         const expectedFee = Math.max(
@@ -82,11 +83,22 @@ async function main() {
           1_000_000 // 0.001 SOL minimum
         );
         
-        if (prepareData.metadata.fee === expectedFee) {
+        if (prepareData.metadata.fee === String(expectedFee)) {
           console.log(`   ✅ Fee calculation correct`);
         } else {
           console.log(`   ⚠️  Fee mismatch! Expected: ${expectedFee}, Got: ${prepareData.metadata.fee}`);
         }
+
+        // The fee is paid on top: the whole amount is shielded
+        const lamports = BigInt(prepareData.metadata.amount);
+        if (
+          prepareData.metadata.amountShielded === String(lamports) &&
+          prepareData.metadata.totalCost === String(lamports + BigInt(prepareData.metadata.fee))
+        ) {
+          console.log(`   ✅ Amount shielded and total cost correct`);
+        } else {
+          console.log(`   ⚠️  Expected amountShielded ${lamports} and totalCost amount + fee`);
+        }
       } else {
         console.log(`   ⚠️  No fee information in response`);
       }
@@ -0,0 +1,476 @@
+/**
+ * Offline end-to-end test - no RPC, relayer or funded wallet needed
+ * Runs amount parsing, fee quotes, SOL deposit/withdraw/replay, private
+ * transfers, history, self-relay, SPL deposit/withdraw (with a deposit fee),
+ * Token-2022 transfer-fee mints and sessions through PrivacyCashService
+ * against the bundled mock relayer and a stub Connection (scripts/mock).
+ * Proofs are generated for real, so the circuit files must be present; a
+ * missing proving key is fetched from the privacycash npm package. The mock
+ * does not verify proofs.
+ */
+
+import { createHash } from 'crypto';
+import { execFileSync } from 'child_process';
+import { copyFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import assert from 'assert/strict';
+import { Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import BN from 'bn.js';
+import nacl from 'tweetnacl';
+
+// Proving key shipped in the privacycash npm package (matches circuit2/transaction2.wasm)
+const ZKEY_PACKAGE = 'privacycash@1.2.2';
+const ZKEY_SHA256 = '4aa7aa5c1c28ed1f00fee84f49c1686f53210fd999ef7c8db6cfcd298af4e693';
+
+// Config is read at import time, so set the environment before loading the service
+const workDir = mkdtempSync(path.join(tmpdir(), 'privacy-cash-offline-'));
+const feecoinMint = Keypair.generate().publicKey;
+const operator = Keypair.generate();
+process.env.MAINNET_RPC_URL ||= 'http://127.0.0.1:8899'; // never contacted
+process.env.UTXO_INDEX_DIR = path.join(workDir, 'utxo-index');
+process.env.FEE_POLICY_FILE = writeJson('fee-policy.json', { tokens: { usdc: { rate: 0.01 } } });
+process.env.TOKEN_REGISTRY_FILE = writeJson('tokens.json', {
+  tokens: {
+    feecoin: { name: 'FEECOIN', mint: feecoinMint.toBase58(), decimals: 6 },
+    usdc: { mint: Keypair.generate().publicKey.toBase58(), decimals: 9 }, // refused: usdc is a profile token
+  },
+});
+process.env.OPERATOR_KEYPAIR = JSON.stringify(Array.from(operator.secretKey));
+process.env.SELF_RELAY_ON_REQUEST = 'true';
+process.env.SELF_RELAY_MAX_PER_MINUTE = '1';
+process.env.SELF_RELAY_FALLBACK = 'true';
+
+const { WasmFactory } = await import('@lightprotocol/hasher.rs');
+const { config } = await import('../src/config/env.js');
+const { SIGN_MESSAGE } = await import('../src/utils/constants.js');
+const { readAmount } = await import('../src/utils/amounts.js');
+const { initProver } = await import('../src/services/proof.js');
+const { EncryptionService } = await import('../src/services/encryption.js');
+const { getQuote } = await import('../src/services/fees.js');
+const { JobQueue } = await import('../src/services/jobs.js');
+const { SessionStore } = await import('../src/services/sessions.js');
+const { tokenRegistry } = await import('../src/services/token-registry.js');
+const { PrivacyCashService } = await import('../src/services/privacy-cash.js');
+const { HttpRelayerClient, setRelayerClient } = await import('../src/services/relayer.js');
+const { deserializeTransaction, serializeTransaction } = await import('../src/services/transaction.js');
+const { requireAuthForSelfRelay } = await import('../src/middleware/auth.js');
+const { MockChain } = await import('./mock/mock-chain.js');
+const { startMockRelayer } = await import('./mock/mock-relayer.js');
+
+type Service = InstanceType<typeof PrivacyCashService>;
+
+interface Wallet {
+  keypair: Keypair;
+  publicKey: string;
+  encryptionService: InstanceType<typeof EncryptionService>;
+}
+
+function writeJson(name: string, contents: unknown): string {
+  const file = path.join(workDir, name);
+  writeFileSync(file, JSON.stringify(contents));
+  return file;
+}
+
+/**
+ * Copy the proving key out of the npm package if it is not there yet
+ */
+function ensureProvingKey(): void {
+  const zkeyPath = `${config.circuitPath}.zkey`;
+  if (!existsSync(zkeyPath)) {
+    console.log(`📦 ${zkeyPath} missing, fetching it from ${ZKEY_PACKAGE}...`);
+    const packDir = mkdtempSync(path.join(tmpdir(), 'privacy-cash-zkey-'));
+    try {
+      const tarball = execFileSync('npm', ['pack', ZKEY_PACKAGE, '--silent', '--pack-destination', packDir], { encoding: 'utf8' })
+        .trim()
+        .split('\n')
+        .pop()!;
+      execFileSync('tar', ['-xzf', path.join(packDir, tarball), '-C', packDir, 'package/circuit2/transaction2.zkey']);
+      copyFileSync(path.join(packDir, 'package/circuit2/transaction2.zkey'), zkeyPath);
+    } finally {
+      rmSync(packDir, { recursive: true, force: true });
+    }
+  }
+
+  const digest = createHash('sha256').update(readFileSync(zkeyPath)).digest('hex');
+  assert.equal(digest, ZKEY_SHA256, `${zkeyPath} is not the ${ZKEY_PACKAGE} proving key`);
+}
+
+function createWallet(): Wallet {
+  const keypair = Keypair.generate();
+  const encryptionService = new EncryptionService();
+  encryptionService.deriveEncryptionKeyFromSignature(
+    nacl.sign.detached(new TextEncoder().encode(SIGN_MESSAGE), keypair.secretKey)
+  );
+  return { keypair, publicKey: keypair.publicKey.toBase58(), encryptionService };
+}
+
+/**
+ * Prepare, sign and submit a deposit; returns the prepare metadata
+ */
+async function deposit(service: Service, wallet: Wallet, baseUnits: BN, mintAddress?: string) {
+  const { publicKey, encryptionService } = wallet;
+  const prepared = mintAddress
+    ? await service.prepareSplDeposit({ publicKey, encryptionService, mintAddress, baseUnits })
+    : await service.prepareDeposit({ publicKey, encryptionService, lamports: baseUnits });
+
+  assert.equal(prepared.simulation.computeUnitLimit, 275_000); // simulated usage plus 10%
+
+  // SPL deposit fees come as a second transaction
+  const [signedTransaction, signedFeeTransaction] = [prepared.unsignedTransaction, prepared.unsignedFeeTransaction].map(unsigned => {
+    if (!unsigned) {
+      return undefined;
+    }
+    const transaction = deserializeTransaction(unsigned);
+    transaction.sign([wallet.keypair]);
+    return serializeTransaction(transaction);
+  });
+  const submitted = await service.submitDeposit({
+    signedTransaction: signedTransaction!,
+    signedFeeTransaction,
+    senderAddress: publicKey,
+    mintAddress,
+  });
+  assert.equal(submitted.status, 'confirmed');
+  assert.equal(submitted.fee?.status, signedFeeTransaction && 'confirmed');
+
+  return prepared.metadata;
+}
+
+/**
+ * Run an Express middleware against a bare request body
+ * Returns the status it answered with, or 'next' if it passed the request on
+ */
+function runMiddleware(
+  middleware: (req: any, res: any, next: () => void) => void,
+  body: Record<string, unknown>
+): number | 'next' {
+  let outcome: number | 'next' | undefined;
+  const res = {
+    locals: {},
+    status(code: number) {
+      outcome = code;
+      return this;
+    },
+    json() {
+      return this;
+    },
+    setHeader() {},
+  };
+  middleware({ body, headers: {}, path: '/submit' }, res, () => {
+    outcome = 'next';
+  });
+  return outcome!;
+}
+
+async function main() {
+  console.log('\n🧪 Offline End-to-End Test (mock relayer + stub RPC)\n');
+  console.log('='.repeat(60));
+
+  // Fails here if the circuit files are missing
+  ensureProvingKey();
+  await initProver();
+
+  const chain = new MockChain(await WasmFactory.getInstance());
+  const relayer = await startMockRelayer(chain);
+  setRelayerClient(new HttpRelayerClient({
+    urls: [relayer.url],
+    timeoutMs: 5000,
+    retries: 0,
+    backoffMs: 0,
+    cooldownMs: 0,
+  }));
+  const service = new PrivacyCashService(chain.createConnection());
+  console.log(`🔗 Mock relayer at ${relayer.url}\n`);
+
+  const sol = tokenRegistry.getToken('sol')!;
+  const usdc = tokenRegistry.getToken('usdc')!;
+  const wallet = createWallet();
+  const { publicKey, encryptionService } = wallet;
+
+  try {
+    console.log('1️⃣  Amount parsing and fee quotes...');
+    assert.equal(readAmount({ uiAmount: '1.5' }, sol).toString(), '1500000000');
+    assert.equal(usdc.mint.toBase58(), config.profileTokens.find(t => t.name === 'USDC')!.mint.toBase58());
+    assert.equal(usdc.decimals, 6);
+    assert.equal(readAmount({ amount: '1500000' }, usdc).toString(), '1500000');
+    assert.throws(() => readAmount({ uiAmount: '0.0000001' }, usdc), { code: 'AMOUNT_PRECISION' });
+    assert.throws(() => readAmount({ amount: '9007199254740992' }, sol), { code: 'AMOUNT_TOO_LARGE' });
+    assert.throws(() => readAmount({ amount: '1', uiAmount: '1' }, sol), { code: 'INVALID_AMOUNT' });
+    assert.throws(() => readAmount({ amount: '0' }, sol), { code: 'INVALID_AMOUNT' });
+    assert.throws(() => readAmount({ amount: 1 }, sol), { code: 'INVALID_AMOUNT' });
+
+    const tokens = tokenRegistry.getAllTokens();
+    const solQuote = await getQuote({ direction: 'deposit', baseUnits: new BN(LAMPORTS_PER_SOL), tokenConfig: sol, tokens });
+    assert.equal(solQuote.fee, '10000000'); // 1% of 1 SOL
+    assert.equal(solQuote.amountAfterFee, '1000000000');
+    assert.equal(solQuote.totalCost, '1010000000');
+    const usdcQuote = await getQuote({ direction: 'deposit', baseUnits: new BN(10_000_000), tokenConfig: usdc, tokens });
+    assert.equal(usdcQuote.fee, '100000'); // 1% from FEE_POLICY_FILE
+    assert.equal(usdcQuote.totalCost, '10100000');
+    const withdrawQuote = await getQuote({ direction: 'withdraw', baseUnits: new BN(LAMPORTS_PER_SOL), tokenConfig: sol, tokens });
+    assert.equal(withdrawQuote.fee, '9500000'); // 0.35% + 0.006 SOL rent
+    assert.equal(withdrawQuote.totalCost, '1000000000');
+    console.log('   ✅ Amounts parsed, precision and range errors raised, quotes add the deposit fee on top\n');
+
+    console.log('2️⃣  Balance of a fresh wallet...');
+    const empty = await service.getBalance({ publicKey, encryptionService });
+    assert.equal(empty.balance, '0');
+    console.log('   ✅ 0 SOL\n');
+
+    console.log('3️⃣  Deposit 0.1 SOL (prepare → sign → submit)...');
+    const depositAmount = new BN(LAMPORTS_PER_SOL / 10);
+    const depositMetadata = await deposit(service, wallet, depositAmount);
+    assert.equal(depositMetadata.fee, '1000000'); // 1%, at the 0.001 SOL minimum
+    assert.equal(depositMetadata.amountShielded, depositAmount.toString());
+    assert.equal(depositMetadata.totalCost, depositAmount.addn(1_000_000).toString());
+    const afterDeposit = await service.getBalance({ publicKey, encryptionService });
+    assert.equal(afterDeposit.balance, depositAmount.toString());
+    // An RPC that reports no usage gets the maximum limit, never 0
+    const connection = chain.createConnection();
+    const unmeasured = Object.assign(Object.create(connection), {
+      simulateTransaction: async (...args: Parameters<typeof connection.simulateTransaction>) => {
+        const result = await connection.simulateTransaction(...args);
+        return { ...result, value: { ...result.value, unitsConsumed: 0 } };
+      },
+    });
+    const unmeasuredDeposit = await new PrivacyCashService(unmeasured).prepareDeposit({
+      ...createWallet(),
+      lamports: depositAmount,
+    });
+    assert.equal(unmeasuredDeposit.simulation.computeUnitLimit, 1_400_000);
+    console.log(`   ✅ Shielded balance: ${afterDeposit.uiBalance} SOL (fee ${depositMetadata.uiFee} SOL on top)\n`);
+
+    console.log('4️⃣  Withdraw 0.05 SOL (prepare → submit)...');
+    const withdrawAmount = new BN(LAMPORTS_PER_SOL / 20);
+    const withdraw = await service.prepareWithdraw({
+      publicKey,
+      encryptionService,
+      lamports: withdrawAmount,
+      recipientAddress: Keypair.generate().publicKey.toBase58(),
+    });
+    const withdrawn = await service.submitWithdraw({
+      withdrawParams: withdraw.withdrawParams,
+    });
+    assert.equal(withdrawn.status, 'confirmed');
+    assert.equal(withdrawn.relayedBy, 'relayer');
+    console.log(`   ✅ Withdrawn: ${withdraw.metadata.uiAmount} SOL (fee ${withdraw.metadata.uiFee} SOL)\n`);
+
+    console.log('5️⃣  Replaying the withdrawal...');
+    await assert.rejects(
+      service.submitWithdraw({ withdrawParams: withdraw.withdrawParams }),
+      /already spent/
+    );
+    console.log('   ✅ Rejected (nullifier already spent)\n');
+
+    console.log('6️⃣  Private transfer of 0.03 SOL to a shielded address...');
+    const sender = createWallet();
+    const receiver = createWallet();
+    await deposit(service, sender, depositAmount);
+    const { shieldedAddress } = await service.getShieldedAddress(receiver);
+    const transferAmount = new BN(30_000_000);
+    const transfer = await service.prepareTransfer({
+      publicKey: sender.publicKey,
+      encryptionService: sender.encryptionService,
+      baseUnits: transferAmount,
+      recipientShieldedAddress: shieldedAddress,
+    });
+    assert.equal(transfer.metadata.fee, '6000000'); // rent fee only
+    const transferred = await service.submitWithdraw({ withdrawParams: transfer.withdrawParams });
+    assert.equal(transferred.status, 'confirmed');
+    const received = await service.getBalance(receiver);
+    assert.equal(received.balance, transferAmount.toString());
+
+    // Notes of 0.03, 0.02 and 0.02 SOL: 0.045 SOL plus the fee needs all three, so one consolidation first
+    const collector = createWallet();
+    const payee = createWallet();
+    await deposit(service, collector, new BN(30_000_000));
+    const { shieldedAddress: collectorAddress } = await service.getShieldedAddress(collector);
+    for (let i = 0; i < 2; i++) {
+      const funder = createWallet();
+      await deposit(service, funder, depositAmount);
+      const funding = await service.prepareTransfer({
+        publicKey: funder.publicKey,
+        encryptionService: funder.encryptionService,
+        baseUnits: new BN(20_000_000),
+        recipientShieldedAddress: collectorAddress,
+      });
+      assert.equal((await service.submitWithdraw({ withdrawParams: funding.withdrawParams })).status, 'confirmed');
+    }
+    const transferParams = {
+      publicKey: collector.publicKey,
+      encryptionService: collector.encryptionService,
+      baseUnits: new BN(45_000_000),
+      recipientShieldedAddress: (await service.getShieldedAddress(payee)).shieldedAddress,
+    };
+    const consolidation = await service.prepareTransfer(transferParams);
+    assert.equal(consolidation.metadata.step, 'consolidate');
+    assert.deepEqual(consolidation.plan.steps.map(step => step.kind), ['consolidate', 'transfer']);
+    assert.equal(consolidation.plan.totalFee, '12000000');
+    assert.equal((await service.submitWithdraw({ withdrawParams: consolidation.withdrawParams })).status, 'confirmed');
+    const finalTransfer = await service.prepareTransfer(transferParams);
+    assert.equal(finalTransfer.metadata.step, 'transfer');
+    assert.deepEqual(finalTransfer.plan.steps.map(step => step.kind), ['transfer']);
+    assert.equal((await service.submitWithdraw({ withdrawParams: finalTransfer.withdrawParams })).status, 'confirmed');
+    assert.equal((await service.getBalance(payee)).balance, '45000000');
+    console.log(`   ✅ Receiver's shielded balance: ${received.uiBalance} SOL, then a transfer over three notes\n`);
+
+    console.log('7️⃣  History...');
+    const receiverHistory = await service.getHistory({ ...receiver, offset: 0, limit: 50 });
+    assert.equal(receiverHistory.total, 1);
+    assert.equal(receiverHistory.entries[0].type, 'transfer_in');
+    assert.equal(receiverHistory.entries[0].amount, transferAmount.toString());
+    const senderHistory = await service.getHistory({ ...sender, offset: 0, limit: 50 });
+    assert.equal(senderHistory.entries[0].type, 'deposit');
+    assert.equal(senderHistory.entries[0].amount, depositAmount.toString());
+    console.log('   ✅ Receiver sees transfer_in, sender sees the deposit\n');
+
+    console.log('8️⃣  Self-relay (authenticated, rate-limited)...');
+    assert.equal(runMiddleware(requireAuthForSelfRelay, { relayMode: 'self' }), 400);
+    assert.equal(runMiddleware(requireAuthForSelfRelay, { relayMode: 'relayer' }), 'next');
+    assert.equal(runMiddleware(requireAuthForSelfRelay, { relayMode: 'relayer', publicKey: 'x', signature: 'y' }), 400);
+    await assert.rejects(
+      service.submitWithdraw({ withdrawParams: withdraw.withdrawParams, relayMode: 'self' }),
+      { code: 'AUTH_REQUIRED' }
+    );
+    // Only authenticated submits fall back to the operator, and a failed simulation takes no rate slot
+    await assert.rejects(service.submitWithdraw({ withdrawParams: withdraw.withdrawParams }), /already spent/);
+    await assert.rejects(
+      service.submitWithdraw({ withdrawParams: withdraw.withdrawParams, publicKey: receiver.publicKey }),
+      { code: 'SIMULATION_FAILED' }
+    );
+    const selfRelayed = await service.prepareWithdraw({
+      publicKey: receiver.publicKey,
+      encryptionService: receiver.encryptionService,
+      lamports: new BN(20_000_000),
+      recipientAddress: Keypair.generate().publicKey.toBase58(),
+    });
+    const selfSubmitted = await service.submitWithdraw({
+      withdrawParams: selfRelayed.withdrawParams,
+      relayMode: 'self',
+      publicKey: receiver.publicKey,
+    });
+    assert.equal(selfSubmitted.status, 'confirmed');
+    assert.equal(selfSubmitted.relayedBy, 'self');
+    await assert.rejects(
+      service.submitWithdraw({ withdrawParams: selfRelayed.withdrawParams, relayMode: 'self', publicKey: receiver.publicKey }),
+      { code: 'SELF_RELAY_RATE_LIMITED' }
+    );
+    // The limit is per key
+    await assert.rejects(
+      service.submitWithdraw({ withdrawParams: selfRelayed.withdrawParams, relayMode: 'self', publicKey: sender.publicKey }),
+      { code: 'SIMULATION_FAILED' }
+    );
+    console.log('   ✅ Anonymous self-relay and fallback refused, one sent by the operator, the next rate-limited per key\n');
+
+    console.log('9️⃣  USDC deposit (with fee) and withdrawal, Token-2022 transfer-fee mint...');
+    const splWallet = createWallet();
+    const mintAddress = usdc.mint.toBase58();
+    const splAmount = new BN(10_000_000);
+    const unpaid = await service.prepareSplDeposit({ ...splWallet, mintAddress, baseUnits: splAmount });
+    const unpaidDeposit = deserializeTransaction(unpaid.unsignedTransaction);
+    unpaidDeposit.sign([splWallet.keypair]);
+    const unpaidSubmit = { signedTransaction: serializeTransaction(unpaidDeposit), senderAddress: splWallet.publicKey, mintAddress };
+    await assert.rejects(service.submitDeposit(unpaidSubmit), { code: 'DEPOSIT_FEE_REQUIRED' });
+    await assert.rejects(
+      service.submitDeposit({ ...unpaidSubmit, signedFeeTransaction: unpaidSubmit.signedTransaction }),
+      { code: 'INVALID_FEE_TRANSACTION' }
+    );
+    await assert.rejects(service.submitDeposit({ ...unpaidSubmit, mintAddress: undefined }), { code: 'MINT_MISMATCH' });
+    assert.equal(chain.tokenTransfers.length, 0);
+
+    const splDeposit = await deposit(service, splWallet, splAmount, mintAddress);
+    assert.equal(splDeposit.fee, '100000');
+    assert.equal(splDeposit.amountShielded, splAmount.toString());
+    assert.equal(splDeposit.totalCost, '10100000');
+    const [feeTransfer] = chain.tokenTransfers;
+    assert.equal(feeTransfer.destination, getAssociatedTokenAddressSync(usdc.mint, new PublicKey(config.adminReferralWallet)).toBase58());
+    assert.equal(feeTransfer.amount, 100_000n);
+    const splBalance = await service.getBalance({ ...splWallet, mintAddress });
+    assert.equal(splBalance.balance, splAmount.toString());
+
+    const splWithdraw = await service.prepareSplWithdraw({
+      ...splWallet,
+      mintAddress,
+      baseUnits: new BN(5_000_000),
+      recipientAddress: Keypair.generate().publicKey.toBase58(),
+    });
+    assert.equal(splWithdraw.metadata.fee, '867500'); // 0.35% + 0.85 USDC rent
+    assert.equal(splWithdraw.metadata.transferFee, '0');
+    assert.equal(splWithdraw.metadata.amountReceived, '4132500');
+    const splWithdrawn = await service.submitWithdraw({ withdrawParams: splWithdraw.withdrawParams });
+    assert.equal(splWithdrawn.status, 'confirmed');
+
+    chain.setTransferFee(feecoinMint, 100);
+    await assert.rejects(
+      service.prepareSplDeposit({ ...splWallet, mintAddress: feecoinMint.toBase58(), baseUnits: new BN(1_000_000) }),
+      { code: 'UNSUPPORTED_MINT' }
+    );
+    console.log(`   ✅ Deposited ${splBalance.uiBalance} USDC (fee ${splDeposit.uiFee} on top), withdrew ${splWithdraw.metadata.uiAmountReceived}, transfer-fee mint refused\n`);
+
+    console.log('🔟 Sessions and async jobs...');
+    const signature = Buffer.from(
+      nacl.sign.detached(new TextEncoder().encode(SIGN_MESSAGE), wallet.keypair.secretKey)
+    ).toString('base64');
+    const sessions = new SessionStore(60_000, 1, 2);
+    const first = sessions.create(publicKey, signature);
+    const second = sessions.create(publicKey, signature);
+    assert.equal(sessions.get(first.token), undefined, 'a second sign-in ends the first session');
+    sessions.create(Keypair.generate().publicKey.toBase58(), signature);
+    assert.throws(() => sessions.create(Keypair.generate().publicKey.toBase58(), signature), { code: 'SESSION_LIMIT_REACHED' });
+
+    // The job runs after its session is revoked, with its own copy of the keys
+    const jobs = new JobQueue(1, 60_000, 1);
+    const session = sessions.get(second.token)!;
+    let start!: () => void;
+    const started = new Promise<void>(resolve => start = resolve);
+    const blocker = jobs.submit('withdraw', session.encryptionService, async () => {
+      await started;
+      return {};
+    });
+    const job = jobs.submit('transfer', session.encryptionService, keys => service.getShieldedAddress({ publicKey, encryptionService: keys }));
+    assert.throws(() => jobs.submit('deposit', session.encryptionService, async () => ({})), { code: 'JOB_QUEUE_FULL' });
+    assert.equal(sessions.revoke(second.token), true);
+    start();
+    while (job.status === 'queued' || job.status === 'proving') {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    assert.equal(blocker.status, 'done');
+    assert.equal(job.status, 'done', job.error);
+    const { shieldedAddress: walletAddress } = await service.getShieldedAddress(wallet);
+    assert.equal(job.result!.shieldedAddress, walletAddress);
+
+    // The TTL only starts once a job finishes, so a running job keeps its keys
+    const shortLived = new JobQueue(1, 200, 1);
+    let finish!: () => void;
+    const running = shortLived.submit('transfer', encryptionService, async keys => {
+      await new Promise<void>(resolve => finish = resolve);
+      return service.getShieldedAddress({ publicKey, encryptionService: keys });
+    });
+    await new Promise(resolve => setTimeout(resolve, 300));
+    shortLived.sweep();
+    assert.equal(shortLived.get(running.id), running);
+    finish();
+    while (running.status === 'proving') {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    assert.equal(running.result?.shieldedAddress, walletAddress, running.error);
+    await new Promise(resolve => setTimeout(resolve, 300));
+    assert.equal(shortLived.get(running.id), undefined);
+    console.log('   ✅ Sessions capped, queue capped, a queued job outlives its session, running jobs do not expire\n');
+  } finally {
+    await relayer.close();
+    rmSync(workDir, { recursive: true, force: true });
+  }
+
+  console.log('='.repeat(60));
+  console.log('✅ Offline test passed!\n');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(err => {
+    console.error('\n❌ Test failed:', err.message);
+    process.exit(1);
+  });
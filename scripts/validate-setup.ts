@@ -4,7 +4,7 @@
 
 import 'dotenv/config';
 import { existsSync } from 'fs';
-import { join } from 'path';
+import { join, resolve } from 'path';
 
 console.log('\n🔍 Validating Setup\n');
 console.log('='.repeat(60));
@@ -28,13 +28,14 @@ if (!testKey || testKey.trim() === '') {
   console.log('✅ TEST_PRIVATE_KEY is set');
 }
 
-// Check MAINNET_RPC_URL
-const rpcUrl = process.env.MAINNET_RPC_URL;
-if (!rpcUrl || rpcUrl.trim() === '') {
-  errors.push('❌ MAINNET_RPC_URL not set - required for Privacy Cash');
-  console.log('❌ MAINNET_RPC_URL not set');
-} else {
-  console.log('✅ MAINNET_RPC_URL is set');
+// Check the network profile (NETWORK, NETWORK_CONFIG and their overrides)
+try {
+  const { loadNetworkProfile } = await import('../src/config/networks.js');
+  const profile = loadNetworkProfile();
+  console.log(`✅ Network profile: ${profile.network} (${profile.rpcUrl})`);
+} catch (error: any) {
+  errors.push(`❌ ${error.message}`);
+  console.log('❌ Network profile incomplete');
 }
 
 // Check SDK exists
@@ -47,10 +48,11 @@ if (!existsSync(sdkPath)) {
 }
 
 // Check circuit files
-const circuitWasm = join(process.cwd(), 'circuit2', 'transaction2.wasm');
-const circuitZkey = join(process.cwd(), 'circuit2', 'transaction2.zkey');
+const circuitPath = resolve(process.env.CIRCUIT_PATH || join('circuit2', 'transaction2'));
+const circuitWasm = `${circuitPath}.wasm`;
+const circuitZkey = `${circuitPath}.zkey`;
 if (!existsSync(circuitWasm) || !existsSync(circuitZkey)) {
-  errors.push('❌ Circuit files not found in circuit2/');
+  errors.push(`❌ Circuit files not found at ${circuitPath}.{wasm,zkey}`);
   console.log('❌ Circuit files missing');
 } else {
   console.log('✅ Circuit files found');
@@ -1,119 +1,128 @@
-import { PublicKey } from '@solana/web3.js';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { availableParallelism } from 'os';
+import bs58 from 'bs58';
 import 'dotenv/config';
+import { loadNetworkProfile, NetworkProfile, NetworkType, TokenConfig } from './networks.js';
 
-// Mainnet-only configuration - Privacy Cash only supports mainnet
-export type NetworkType = 'mainnet';
-
-// Hardcoded constants - these don't change
-const PROGRAM_ID = new PublicKey('9fhQBbumKEFuXtMBDw8AaQyAjCorLGJQiS3skWZdQyQD');
-const ALT_ADDRESS = new PublicKey('HEN49U2ySJ85Vc78qprSW9y6mFDhs1NczRxyppNHjofe');
-const RELAYER_URL = 'https://api3.privacycash.org';
-
-// Admin referral wallet - earns % fee on all transactions via Privacy Cash referral program
-const ADMIN_REFERRAL_WALLET = 'HKBrbp3h8B9tMCn4ceKCtmF8jWxvpfrb7YNLbCgxLUJL';
-
-// Token configurations - hardcoded
-const TOKEN_CONFIGS = {
-  sol: {
-    name: 'SOL',
-    mint: new PublicKey('So11111111111111111111111111111111111111112'),
-    decimals: 9,
-    unitsPerToken: 1e9,
-  },
-  usdc: {
-    name: 'USDC',
-    mint: new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'),
-    decimals: 6,
-    unitsPerToken: 1e6,
-  },
-  usdt: {
-    name: 'USDT',
-    mint: new PublicKey('Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB'),
-    decimals: 6,
-    unitsPerToken: 1e6,
-  },
-  zec: {
-    name: 'ZEC',
-    mint: new PublicKey('A7bdiYdS5GjqGFtxf17ppRHtDKPkkRqbKtR27dxvQXaS'),
-    decimals: 8,
-    unitsPerToken: 1e8,
-  },
-  ore: {
-    name: 'ORE',
-    mint: new PublicKey('oreoU2P8bN6jkk3jbaiVxYnG1dCXcYxwhwyK9jSybcp'),
-    decimals: 11,
-    unitsPerToken: 1e11,
-  },
-  store: {
-    name: 'STORE',
-    mint: new PublicKey('sTorERYB6xAZ1SSbwpK3zoK2EEwbBrc7TZAzg1uCGiH'),
-    decimals: 11,
-    unitsPerToken: 1e11,
-  },
-} as const;
-
-export interface TokenConfig {
-  name: string;
-  mint: PublicKey;
-  decimals: number;
-  unitsPerToken: number;
-}
+export type { NetworkType, TokenConfig } from './networks.js';
+
+// Who sends withdrawals on-chain: the Privacy Cash relayer, or this server with the operator keypair
+export const RELAY_MODES = ['relayer', 'self'] as const;
+export type RelayMode = typeof RELAY_MODES[number];
+
+// Commitment a submitted transaction must reach before submit reports it confirmed (weakest first)
+export const CONFIRMATION_COMMITMENTS = ['processed', 'confirmed', 'finalized'] as const;
+export type ConfirmationCommitment = typeof CONFIRMATION_COMMITMENTS[number];
 
 class Config {
   readonly isProduction: boolean;
   readonly network: NetworkType;
   readonly rpcUrl: string;
 
-  // Hardcoded values
-  readonly programId = PROGRAM_ID;
-  readonly altAddress = ALT_ADDRESS;
-  readonly relayerUrl = RELAYER_URL;
-  readonly adminReferralWallet = ADMIN_REFERRAL_WALLET;
-  readonly port = 3000;
-  readonly host = '0.0.0.0';
+  // Deployment, from the network profile (NETWORK / NETWORK_CONFIG)
+  readonly programId: PublicKey;
+  readonly altAddress: PublicKey;
+  readonly feeRecipient: PublicKey;
+  readonly circuitPath: string;
+  // Relayers in order of preference (RELAYER_URLS is comma-separated)
+  readonly relayerUrls: string[];
+  readonly relayerTimeoutMs = Number(process.env.RELAYER_TIMEOUT_MS) || 15 * 1000;
+  readonly relayerRetries = Number(process.env.RELAYER_RETRIES) || 2;
+
+  // Self-relay: withdrawals sent through RPC, fees paid by the operator keypair
+  readonly relayMode: RelayMode;
+  readonly selfRelayFallback = process.env.SELF_RELAY_FALLBACK === 'true';
+  // Lets clients ask for relayMode 'self' on submit (always authenticated)
+  readonly selfRelayOnRequest = process.env.SELF_RELAY_ON_REQUEST === 'true';
+  readonly selfRelayMaxPerMinute = Number(process.env.SELF_RELAY_MAX_PER_MINUTE) || 10;
+  readonly operatorKeypair: Keypair | null;
+  readonly adminReferralWallet: string;
+  readonly port = Number(process.env.PORT) || 3000;
+  readonly host = process.env.HOST || '0.0.0.0';
+
+  // Confirmation of submitted transactions
+  readonly confirmationCommitment: ConfirmationCommitment;
+  readonly confirmationTimeoutMs = Number(process.env.CONFIRMATION_TIMEOUT_MS) || 60 * 1000;
+
+  // Async proof jobs
+  readonly jobConcurrency = Number(process.env.JOB_CONCURRENCY) || 1;
+  readonly jobTtlMs = Number(process.env.JOB_TTL_MS) || 10 * 60 * 1000;
+  readonly jobQueueLimit = Number(process.env.JOB_QUEUE_LIMIT) || 64;
+
+  // Sign-in sessions
+  readonly sessionTtlMs = Number(process.env.SESSION_TTL_MS) || 15 * 60 * 1000;
+  readonly sessionMaxPerPublicKey = Number(process.env.SESSION_MAX_PER_PUBLIC_KEY) || 5;
+  readonly sessionMaxTotal = Number(process.env.SESSION_MAX_TOTAL) || 10_000;
+
+  // Local copy of the pools' encrypted outputs
+  readonly utxoIndexDir = process.env.UTXO_INDEX_DIR || 'cache/utxo-index';
+
+  // Prover worker pool
+  readonly proverPoolSize = Number(process.env.PROVER_POOL_SIZE) || Math.max(1, availableParallelism() - 1);
+  readonly proverQueueLimit = Number(process.env.PROVER_QUEUE_LIMIT) || 16;
+  readonly proverTimeoutMs = Number(process.env.PROVER_TIMEOUT_MS) || 120 * 1000;
 
-  private tokens: Map<string, TokenConfig>;
+  // Seed of the token registry (the network profile's tokens)
+  readonly profileTokens: TokenConfig[];
+  readonly tokenRegistryFile = process.env.TOKEN_REGISTRY_FILE || undefined;
+  readonly tokenRefreshIntervalMs = Number(process.env.TOKEN_REFRESH_INTERVAL_MS) || 10 * 60 * 1000;
+
+  // Per-token deposit fee overrides (rate, brackets, minimum/maximum, recipient)
+  readonly feePolicyFile = process.env.FEE_POLICY_FILE || undefined;
 
   constructor() {
-    // Mainnet-only: Privacy Cash only supports mainnet
-    this.isProduction = true;
-    this.network = 'mainnet';
-    
-    // Mainnet RPC is required
-    const mainnetRpc = process.env.MAINNET_RPC_URL;
-    if (!mainnetRpc) {
-      throw new Error('MAINNET_RPC_URL is required. Privacy Cash only supports mainnet.');
+    const profile: NetworkProfile = loadNetworkProfile();
+    this.network = profile.network;
+    this.isProduction = profile.network === 'mainnet';
+    this.rpcUrl = profile.rpcUrl;
+    this.programId = profile.programId;
+    this.altAddress = profile.altAddress;
+    this.feeRecipient = profile.feeRecipient;
+    this.adminReferralWallet = profile.adminReferralWallet;
+    this.circuitPath = profile.circuitPath;
+    this.relayerUrls = process.env.RELAYER_URLS
+      ? process.env.RELAYER_URLS.split(',').map(url => url.trim().replace(/\/+$/, '')).filter(Boolean)
+      : [profile.relayerUrl];
+
+    const relayMode = process.env.RELAY_MODE || 'relayer';
+    if (!RELAY_MODES.includes(relayMode as RelayMode)) {
+      throw new Error(`RELAY_MODE must be one of: ${RELAY_MODES.join(', ')}`);
+    }
+    this.relayMode = relayMode as RelayMode;
+    this.operatorKeypair = parseOperatorKeypair(process.env.OPERATOR_KEYPAIR);
+    if (this.relayMode === 'self' && !this.operatorKeypair) {
+      throw new Error('OPERATOR_KEYPAIR is required when RELAY_MODE=self');
     }
-    this.rpcUrl = mainnetRpc;
 
-    // Initialize tokens
-    this.tokens = new Map();
-    for (const [key, tokenConfig] of Object.entries(TOKEN_CONFIGS)) {
-      this.tokens.set(key, tokenConfig);
+    const commitment = process.env.CONFIRMATION_COMMITMENT || 'confirmed';
+    if (!CONFIRMATION_COMMITMENTS.includes(commitment as ConfirmationCommitment)) {
+      throw new Error(`CONFIRMATION_COMMITMENT must be one of: ${CONFIRMATION_COMMITMENTS.join(', ')}`);
     }
+    this.confirmationCommitment = commitment as ConfirmationCommitment;
+
+    this.profileTokens = Object.values(profile.tokens);
   }
 
   get shouldLog(): boolean {
     // Always enable logging for debugging failures and general operations
     return true;
   }
+}
 
-  getToken(symbol: string): TokenConfig | undefined {
-    return this.tokens.get(symbol.toLowerCase());
-  }
-
-  getTokenByMint(mint: string | PublicKey): TokenConfig | undefined {
-    const mintStr = typeof mint === 'string' ? mint : mint.toBase58();
-    for (const token of this.tokens.values()) {
-      if (token.mint.toBase58() === mintStr) {
-        return token;
-      }
-    }
-    return undefined;
+/**
+ * Operator secret key, as a JSON byte array (solana-keygen file contents) or base58
+ */
+function parseOperatorKeypair(value?: string): Keypair | null {
+  if (!value) {
+    return null;
   }
-
-  getAllTokens(): TokenConfig[] {
-    return Array.from(this.tokens.values());
+  try {
+    const secretKey = value.trim().startsWith('[')
+      ? Uint8Array.from(JSON.parse(value))
+      : bs58.decode(value.trim());
+    return Keypair.fromSecretKey(secretKey);
+  } catch {
+    throw new Error('OPERATOR_KEYPAIR is not a valid secret key (JSON byte array or base58)');
   }
 }
 
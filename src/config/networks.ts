@@ -0,0 +1,213 @@
+import { readFileSync } from 'fs';
+import { PublicKey } from '@solana/web3.js';
+
+/**
+ * Network profiles: the deployment a server instance talks to
+ * NETWORK picks a built-in profile; NETWORK_CONFIG points at a JSON file whose
+ * fields (same names as NetworkProfileFile) override it, and single values
+ * can be overridden again from the environment (RPC_URL, PROGRAM_ID, ...).
+ * A 'custom' network starts empty, so everything comes from the file or env.
+ */
+
+export const NETWORKS = ['mainnet', 'devnet', 'localnet', 'custom'] as const;
+export type NetworkType = typeof NETWORKS[number];
+
+export interface TokenConfig {
+  name: string;
+  mint: PublicKey;
+  decimals: number;
+  unitsPerToken: number;
+}
+
+export interface NetworkProfile {
+  network: NetworkType;
+  rpcUrl: string;
+  programId: PublicKey;
+  altAddress: PublicKey;
+  relayerUrl: string;
+  // Receives relayer fees; fixed by the program's global config
+  feeRecipient: PublicKey;
+  // Earns the deposit fee through the referral program
+  adminReferralWallet: string;
+  // Keyed by lowercase symbol; must include sol
+  tokens: Record<string, TokenConfig>;
+  // Circuit files without extension (.wasm/.zkey), relative to the project root
+  circuitPath: string;
+}
+
+/**
+ * NETWORK_CONFIG file contents: any subset of the profile, as JSON
+ */
+interface NetworkProfileFile {
+  network?: string;
+  rpcUrl?: string;
+  programId?: string;
+  altAddress?: string;
+  relayerUrl?: string;
+  feeRecipient?: string;
+  adminReferralWallet?: string;
+  tokens?: Record<string, { name?: string; mint: string; decimals: number }>;
+  circuitPath?: string;
+}
+
+const DEFAULT_CIRCUIT_PATH = 'circuit2/transaction2';
+
+// Lowercase token names end up in relayer queries and UTXO index file names
+const TOKEN_NAME_PATTERN = /^[a-z0-9_-]+$/;
+const MAX_TOKEN_DECIMALS = 18;
+
+// Admin referral wallet - earns % fee on all transactions via Privacy Cash referral program
+const ADMIN_REFERRAL_WALLET = 'HKBrbp3h8B9tMCn4ceKCtmF8jWxvpfrb7YNLbCgxLUJL';
+
+const WRAPPED_SOL: TokenConfig = {
+  name: 'SOL',
+  mint: new PublicKey('So11111111111111111111111111111111111111112'),
+  decimals: 9,
+  unitsPerToken: 1e9,
+};
+
+// Built-in profiles; mainnet is the Privacy Cash deployment
+const PROFILES: Record<NetworkType, Partial<NetworkProfile>> = {
+  mainnet: {
+    programId: new PublicKey('9fhQBbumKEFuXtMBDw8AaQyAjCorLGJQiS3skWZdQyQD'),
+    altAddress: new PublicKey('HEN49U2ySJ85Vc78qprSW9y6mFDhs1NczRxyppNHjofe'),
+    relayerUrl: 'https://api3.privacycash.org',
+    feeRecipient: new PublicKey('AWexibGxNFKTa1b5R5MN4PJr9HWnWRwf8EW9g8cLx3dM'),
+    adminReferralWallet: ADMIN_REFERRAL_WALLET,
+    circuitPath: DEFAULT_CIRCUIT_PATH,
+    tokens: {
+      sol: WRAPPED_SOL,
+      usdc: createTokenConfig('USDC', 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', 6),
+      usdt: createTokenConfig('USDT', 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', 6),
+      zec: createTokenConfig('ZEC', 'A7bdiYdS5GjqGFtxf17ppRHtDKPkkRqbKtR27dxvQXaS', 8),
+      ore: createTokenConfig('ORE', 'oreoU2P8bN6jkk3jbaiVxYnG1dCXcYxwhwyK9jSybcp', 11),
+      store: createTokenConfig('STORE', 'sTorERYB6xAZ1SSbwpK3zoK2EEwbBrc7TZAzg1uCGiH', 11),
+    },
+  },
+  // Program, ALT, relayer and fee recipient depend on the deployment
+  devnet: {
+    rpcUrl: 'https://api.devnet.solana.com',
+    adminReferralWallet: ADMIN_REFERRAL_WALLET,
+    circuitPath: DEFAULT_CIRCUIT_PATH,
+    tokens: {
+      sol: WRAPPED_SOL,
+      usdc: createTokenConfig('USDC', '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU', 6),
+    },
+  },
+  localnet: {
+    rpcUrl: 'http://127.0.0.1:8899',
+    adminReferralWallet: ADMIN_REFERRAL_WALLET,
+    circuitPath: DEFAULT_CIRCUIT_PATH,
+    tokens: { sol: WRAPPED_SOL },
+  },
+  custom: {},
+};
+
+/**
+ * Resolve the network profile from NETWORK, NETWORK_CONFIG and the single-value
+ * overrides in env. Throws naming the first missing or invalid setting.
+ */
+export function loadNetworkProfile(env: NodeJS.ProcessEnv = process.env): NetworkProfile {
+  const file = env.NETWORK_CONFIG ? readProfileFile(env.NETWORK_CONFIG) : {};
+
+  const network = env.NETWORK || file.network || 'mainnet';
+  if (!NETWORKS.includes(network as NetworkType)) {
+    throw new Error(`NETWORK must be one of: ${NETWORKS.join(', ')}`);
+  }
+
+  const profile: Partial<NetworkProfile> = { ...PROFILES[network as NetworkType] };
+  const set = <K extends keyof NetworkProfile>(key: K, value: string | undefined, parse: (value: string) => NetworkProfile[K]) => {
+    if (value) {
+      profile[key] = parse(value);
+    }
+  };
+
+  set('rpcUrl', file.rpcUrl, String);
+  set('programId', file.programId, value => publicKey('programId', value));
+  set('altAddress', file.altAddress, value => publicKey('altAddress', value));
+  set('relayerUrl', file.relayerUrl, String);
+  set('feeRecipient', file.feeRecipient, value => publicKey('feeRecipient', value));
+  set('adminReferralWallet', file.adminReferralWallet, value => publicKey('adminReferralWallet', value).toBase58());
+  set('circuitPath', file.circuitPath, String);
+  if (file.tokens) {
+    profile.tokens = parseTokens(file.tokens);
+  }
+
+  // MAINNET_RPC_URL predates profiles and is still honoured on mainnet
+  set('rpcUrl', env.RPC_URL || (network === 'mainnet' ? env.MAINNET_RPC_URL : undefined), String);
+  set('programId', env.PROGRAM_ID, value => publicKey('PROGRAM_ID', value));
+  set('altAddress', env.ALT_ADDRESS, value => publicKey('ALT_ADDRESS', value));
+  set('feeRecipient', env.FEE_RECIPIENT, value => publicKey('FEE_RECIPIENT', value));
+  set('adminReferralWallet', env.ADMIN_REFERRAL_WALLET, value => publicKey('ADMIN_REFERRAL_WALLET', value).toBase58());
+  set('circuitPath', env.CIRCUIT_PATH, String);
+  // RELAYER_URLS (read by Config) replaces the profile's relayer, so it satisfies it here too
+  set('relayerUrl', env.RELAYER_URLS?.split(',')[0]?.trim(), String);
+
+  if (!profile.rpcUrl) {
+    throw new Error(network === 'mainnet'
+      ? 'MAINNET_RPC_URL (or RPC_URL) is required for mainnet'
+      : `RPC_URL is required for the ${network} network`);
+  }
+  for (const [key, envName] of [
+    ['programId', 'PROGRAM_ID'],
+    ['altAddress', 'ALT_ADDRESS'],
+    ['relayerUrl', 'RELAYER_URLS'],
+    ['feeRecipient', 'FEE_RECIPIENT'],
+    ['adminReferralWallet', 'ADMIN_REFERRAL_WALLET'],
+  ] as const) {
+    if (!profile[key]) {
+      throw new Error(`${envName} (or "${key}" in NETWORK_CONFIG) is required for the ${network} network`);
+    }
+  }
+  if (!profile.tokens?.sol) {
+    throw new Error(`The ${network} network has no sol token (add "tokens" to NETWORK_CONFIG)`);
+  }
+
+  return {
+    ...profile,
+    network: network as NetworkType,
+    circuitPath: profile.circuitPath || DEFAULT_CIRCUIT_PATH,
+  } as NetworkProfile;
+}
+
+function readProfileFile(path: string): NetworkProfileFile {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`NETWORK_CONFIG ${path} could not be read: ${error.message}`);
+  }
+}
+
+function parseTokens(tokens: NonNullable<NetworkProfileFile['tokens']>): Record<string, TokenConfig> {
+  const parsed: Record<string, TokenConfig> = {};
+  for (const [symbol, { name, mint, decimals }] of Object.entries(tokens)) {
+    try {
+      parsed[symbol.toLowerCase()] = createTokenConfig(name ?? symbol.toUpperCase(), publicKey(`tokens.${symbol}.mint`, mint).toBase58(), decimals);
+    } catch (error: any) {
+      throw new Error(`NETWORK_CONFIG token ${symbol}: ${error.message}`);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Token entry from its mint and decimals
+ * Throws when the name or decimals are not usable
+ */
+export function createTokenConfig(name: string, mint: string, decimals: number): TokenConfig {
+  if (typeof name !== 'string' || !TOKEN_NAME_PATTERN.test(name.toLowerCase())) {
+    throw new Error(`token name must match ${TOKEN_NAME_PATTERN} (case-insensitive): ${name}`);
+  }
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_TOKEN_DECIMALS) {
+    throw new Error(`decimals must be an integer from 0 to ${MAX_TOKEN_DECIMALS}: ${decimals}`);
+  }
+  return { name, mint: new PublicKey(mint), decimals, unitsPerToken: 10 ** decimals };
+}
+
+function publicKey(field: string, value: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new Error(`${field} is not a valid public key: ${value}`);
+  }
+}
@@ -0,0 +1,121 @@
+import { Request, Response, NextFunction } from 'express';
+import { PublicKey } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { config } from '../config/env.js';
+import { SIGN_MESSAGE } from '../utils/constants.js';
+import { ApiError, sendError } from '../utils/errors.js';
+import { EncryptionService } from '../services/encryption.js';
+import { sessionStore } from '../services/sessions.js';
+import { logger } from './logging.js';
+
+const SIGN_MESSAGE_BYTES = new TextEncoder().encode(SIGN_MESSAGE);
+
+/**
+ * Check that signature (base64) is publicKey's ed25519 signature of SIGN_MESSAGE
+ * Encryption keys are derived from this signature, so a wrong one would
+ * silently point at an empty account
+ */
+export function verifySignInSignature(publicKey: string, signature: string): void {
+  let signer: PublicKey;
+  try {
+    signer = new PublicKey(publicKey);
+  } catch {
+    throw new ApiError('publicKey is not a valid Solana address', 400, 'INVALID_PUBLIC_KEY');
+  }
+
+  const signatureBytes = Buffer.from(signature, 'base64');
+  if (signatureBytes.length !== nacl.sign.signatureLength) {
+    throw new ApiError('signature must be a base64-encoded 64-byte ed25519 signature', 400, 'INVALID_SIGNATURE');
+  }
+
+  if (!nacl.sign.detached.verify(SIGN_MESSAGE_BYTES, signatureBytes, signer.toBytes())) {
+    throw new ApiError(`signature is not a signature of "${SIGN_MESSAGE}" by publicKey`, 401, 'SIGNATURE_MISMATCH');
+  }
+}
+
+/**
+ * Who a request is authenticated as, set on res.locals.auth by requireAuth
+ */
+export interface AuthContext {
+  publicKey: string;
+  encryptionService: EncryptionService;
+}
+
+export function getAuth(res: Response): AuthContext {
+  return res.locals.auth as AuthContext;
+}
+
+/**
+ * Auth of a request that may be anonymous (requireAuthForSelfRelay)
+ */
+export function getOptionalAuth(res: Response): AuthContext | undefined {
+  return res.locals.auth as AuthContext | undefined;
+}
+
+/**
+ * Bearer token from the Authorization header, if any
+ */
+export function readBearerToken(req: Request): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  return match?.[1];
+}
+
+/**
+ * Require a session token (Authorization: Bearer <token>) or a valid sign-in
+ * signature in the request body ({ publicKey, signature })
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  const token = readBearerToken(req);
+  const { publicKey, signature } = req.body ?? {};
+
+  if (!token && (typeof publicKey !== 'string' || typeof signature !== 'string' || !publicKey || !signature)) {
+    res.status(400).json({ error: 'Missing required fields: publicKey, signature (or an Authorization bearer token)' });
+    return;
+  }
+
+  try {
+    res.locals.auth = token ? authenticateSession(token, publicKey) : authenticateSignature(publicKey, signature);
+    next();
+  } catch (error: any) {
+    logger.warn('Authentication rejected', { publicKey, path: req.path, code: error.code });
+    sendError(res, error);
+  }
+}
+
+/**
+ * requireAuth for submits that would be self-relayed (relayMode 'self', or the
+ * RELAY_MODE default): they spend the operator's SOL, so they cannot be anonymous
+ * Relayer submits may stay anonymous, but are authenticated when they carry
+ * credentials; only those may fall back to self-relay (see getOptionalAuth)
+ */
+export function requireAuthForSelfRelay(req: Request, res: Response, next: NextFunction): void {
+  const relayMode = req.body?.relayMode ?? config.relayMode;
+  const hasCredentials = Boolean(readBearerToken(req) || req.body?.publicKey || req.body?.signature);
+  if (relayMode !== 'self' && !hasCredentials) {
+    next();
+    return;
+  }
+  requireAuth(req, res, next);
+}
+
+function authenticateSession(token: string, publicKey: unknown): AuthContext {
+  const session = sessionStore.get(token);
+  if (!session) {
+    throw new ApiError('Session token is unknown or expired', 401, 'SESSION_EXPIRED');
+  }
+
+  // publicKey is optional with a token, but must match the session when given
+  if (publicKey !== undefined && publicKey !== session.publicKey) {
+    throw new ApiError('publicKey does not match the session', 401, 'SESSION_MISMATCH');
+  }
+
+  return { publicKey: session.publicKey, encryptionService: session.encryptionService };
+}
+
+function authenticateSignature(publicKey: string, signature: string): AuthContext {
+  verifySignInSignature(publicKey, signature);
+
+  const encryptionService = new EncryptionService();
+  encryptionService.deriveEncryptionKeyFromSignature(Buffer.from(signature, 'base64'));
+  return { publicKey, encryptionService };
+}
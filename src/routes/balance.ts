@@ -1,7 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { privacyCashService } from '../services/privacy-cash.js';
-import { config } from '../config/env.js';
+import { tokenRegistry } from '../services/token-registry.js';
 import { logger } from '../middleware/logging.js';
+import { sendError } from '../utils/errors.js';
+import { requireAuth, getAuth } from '../middleware/auth.js';
 
 const router = Router();
 
@@ -9,19 +11,14 @@ const router = Router();
  * POST /v1/balance
  * Get shielded balance for a user
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireAuth, async (req: Request, res: Response) => {
   try {
-    const { publicKey, signature, mintAddress } = req.body;
-
-    if (!publicKey || !signature) {
-      return res.status(400).json({
-        error: 'Missing required fields: publicKey, signature',
-      });
-    }
+    const { mintAddress } = req.body;
+    const { publicKey, encryptionService } = getAuth(res);
 
     const result = await privacyCashService.getBalance({
       publicKey,
-      signature,
+      encryptionService,
       mintAddress,
     });
 
@@ -30,6 +27,7 @@ router.post('/', async (req: Request, res: Response) => {
     res.json({
       success: true,
       balance: result.balance,
+      uiBalance: result.uiBalance,
       token: result.token,
       decimals: result.decimals,
     });
@@ -37,9 +35,9 @@ router.post('/', async (req: Request, res: Response) => {
     logger.error('Balance retrieval failed', { 
       error: error.message,
       stack: error.stack,
-      requestBody: { publicKey: req.body.publicKey, mintAddress: req.body.mintAddress }
+      requestBody: { publicKey: getAuth(res).publicKey, mintAddress: req.body.mintAddress }
     });
-    res.status(500).json({ error: error.message });
+    sendError(res, error);
   }
 });
 
@@ -47,21 +45,16 @@ router.post('/', async (req: Request, res: Response) => {
  * POST /v1/balance/all
  * Get all shielded balances
  */
-router.post('/all', async (req: Request, res: Response) => {
+router.post('/all', requireAuth, async (req: Request, res: Response) => {
   try {
-    const { publicKey, signature } = req.body;
-
-    if (!publicKey || !signature) {
-      return res.status(400).json({
-        error: 'Missing required fields: publicKey, signature',
-      });
-    }
+    const { publicKey, encryptionService } = getAuth(res);
 
-    const tokens = config.getAllTokens();
+    const tokens = tokenRegistry.getAllTokens();
     const balances: Array<{
       token: string;
       mint: string;
-      balance: number;
+      balance: string;
+      uiBalance: string;
       decimals: number;
     }> = [];
 
@@ -70,7 +63,7 @@ router.post('/all', async (req: Request, res: Response) => {
         const mintAddress = token.name.toLowerCase() === 'sol' ? undefined : token.mint.toBase58();
         const result = await privacyCashService.getBalance({
           publicKey,
-          signature,
+          encryptionService,
           mintAddress,
         });
 
@@ -78,6 +71,7 @@ router.post('/all', async (req: Request, res: Response) => {
           token: result.token,
           mint: token.mint.toBase58(),
           balance: result.balance,
+          uiBalance: result.uiBalance,
           decimals: result.decimals,
         });
       } catch {
@@ -90,9 +84,9 @@ router.post('/all', async (req: Request, res: Response) => {
     logger.error('Balance retrieval (all) failed', { 
       error: error.message,
       stack: error.stack,
-      requestBody: { publicKey: req.body.publicKey }
+      requestBody: { publicKey: getAuth(res).publicKey }
     });
-    res.status(500).json({ error: error.message });
+    sendError(res, error);
   }
 });
 
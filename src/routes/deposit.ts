@@ -1,85 +1,100 @@
 import { Router, Request, Response } from 'express';
+import BN from 'bn.js';
 import { privacyCashService } from '../services/privacy-cash.js';
+import { EncryptionService } from '../services/encryption.js';
 import { logger } from '../middleware/logging.js';
-import { config } from '../config/env.js';
+import { sendError } from '../utils/errors.js';
+import { requireAuth, getAuth } from '../middleware/auth.js';
+import { config, CONFIRMATION_COMMITMENTS } from '../config/env.js';
+import { tokenRegistry } from '../services/token-registry.js';
+import { jobQueue } from '../services/jobs.js';
+import { readAmount } from '../utils/amounts.js';
+import { PriorityFee, readPriorityFee } from '../services/priority-fee.js';
 
 const router = Router();
 
+/**
+ * Build the deposit prepare response (shared by the sync and async paths)
+ */
+async function prepareDeposit(params: {
+  publicKey: string;
+  encryptionService: EncryptionService;
+  amount: BN; // Base units
+  mintAddress?: string;
+  referrer: string;
+  priorityFee: PriorityFee;
+}): Promise<Record<string, any>> {
+  const { publicKey, encryptionService, amount, mintAddress, referrer, priorityFee } = params;
+  let result: Awaited<ReturnType<typeof privacyCashService.prepareSplDeposit>>;
+
+  if (mintAddress) {
+    result = await privacyCashService.prepareSplDeposit({
+      publicKey,
+      encryptionService,
+      mintAddress,
+      baseUnits: amount,
+      referrer,
+      priorityFee,
+    });
+  } else {
+    result = await privacyCashService.prepareDeposit({
+      publicKey,
+      encryptionService,
+      lamports: amount,
+      referrer,
+      priorityFee,
+    });
+  }
+
+  const { metadata } = result;
+
+  logger.debug('Deposit prepared', {
+    amount: metadata.amount,
+    fee: metadata.fee,
+    totalCost: metadata.totalCost,
+    unitsConsumed: result.simulation.unitsConsumed,
+    networkFee: metadata.networkFee,
+  });
+
+  return {
+    success: true,
+    unsignedTransaction: result.unsignedTransaction,
+    unsignedFeeTransaction: result.unsignedFeeTransaction,
+    metadata,
+    simulation: result.simulation,
+  };
+}
+
 /**
  * POST /v1/deposit/prepare
  * Prepare an unsigned deposit transaction
+ * Pass async: true to get a jobId back immediately (poll GET /v1/jobs/:id)
  */
-router.post('/prepare', async (req: Request, res: Response) => {
+router.post('/prepare', requireAuth, async (req: Request, res: Response) => {
   try {
-    const { publicKey, signature, amount, mintAddress, referrer } = req.body;
+    const { mintAddress, referrer, async: runAsync } = req.body;
+    const { publicKey, encryptionService } = getAuth(res);
 
-    if (!publicKey || !signature || !amount) {
-      return res.status(400).json({
-        error: 'Missing required fields: publicKey, signature, amount',
-      });
-    }
-
-    if (amount <= 0) {
-      return res.status(400).json({ error: 'Amount must be positive' });
-    }
+    const amount = readAmount(req.body, tokenRegistry.resolveToken(mintAddress));
+    const priorityFee = readPriorityFee(req.body.priorityFee);
 
     // Use admin referral wallet by default to earn fees
     const effectiveReferrer = referrer || config.adminReferralWallet;
-    
-    let result;
-
-    if (mintAddress) {
-      result = await privacyCashService.prepareSplDeposit({
-        publicKey,
-        signature,
-        mintAddress,
-        amount,
-        referrer: effectiveReferrer,
-      });
-    } else {
-      const lamports = Math.floor(amount * 1e9);
-      result = await privacyCashService.prepareDeposit({
-        publicKey,
-        signature,
-        lamports,
-        referrer: effectiveReferrer,
-      });
-    }
-
-    // Handle both SOL (with fees) and SPL deposits
-    const metadata = result.metadata as any;
-    const hasFee = 'fee' in metadata;
-    
-    logger.debug('Deposit prepared', { 
-      amount: metadata.amount,
-      fee: hasFee ? metadata.fee : 0,
-      amountAfterFee: hasFee ? metadata.amountAfterFee : metadata.amount
-    });
+    const params = { publicKey, encryptionService, amount, mintAddress, referrer: effectiveReferrer, priorityFee };
 
-    const responseMetadata: any = {
-      amount: metadata.amount,
-      encryptedOutput1: metadata.encryptedOutput1,
-      encryptedOutput2: metadata.encryptedOutput2,
-    };
-
-    if (hasFee) {
-      responseMetadata.fee = metadata.fee;
-      responseMetadata.feeRate = metadata.feeRate;
-      responseMetadata.amountAfterFee = metadata.amountAfterFee;
+    if (runAsync) {
+      const job = jobQueue.submit('deposit', encryptionService, keys => prepareDeposit({ ...params, encryptionService: keys }));
+      return res.status(202).json({ success: true, jobId: job.id, status: job.status });
     }
 
-    res.json({
-      success: true,
-      unsignedTransaction: result.unsignedTransaction,
-      metadata: responseMetadata,
-    });
+    res.json(await prepareDeposit(params));
   } catch (error: any) {
     logger.error('Deposit prepare failed', { 
       error: error.message, 
       stack: error.stack,
-      requestBody: { publicKey: req.body.publicKey, amount: req.body.amount, mintAddress: req.body.mintAddress }
+      requestBody: { publicKey: getAuth(res).publicKey, amount: req.body.amount, uiAmount: req.body.uiAmount, mintAddress: req.body.mintAddress }
     });
-    res.status(500).json({ error: error.message || 'Unknown error' });
+    sendError(res, error);
   }
 });
 
@@ -89,30 +104,35 @@ router.post('/prepare', async (req: Request, res: Response) => {
  */
 router.post('/submit', async (req: Request, res: Response) => {
   try {
-    const { signedTransaction, senderAddress, encryptedOutput1, referrer, mintAddress } = req.body;
+    const { signedTransaction, signedFeeTransaction, senderAddress, referrer, mintAddress, commitment } = req.body;
 
-    if (!signedTransaction || !senderAddress || !encryptedOutput1) {
+    if (!signedTransaction || !senderAddress) {
       return res.status(400).json({
-        error: 'Missing required fields: signedTransaction, senderAddress, encryptedOutput1',
+        error: 'Missing required fields: signedTransaction, senderAddress',
       });
     }
 
+    if (commitment !== undefined && !CONFIRMATION_COMMITMENTS.includes(commitment)) {
+      return res.status(400).json({ error: `commitment must be one of: ${CONFIRMATION_COMMITMENTS.join(', ')}` });
+    }
+
     // Use admin referral wallet by default to earn fees
     const effectiveReferrer = referrer || config.adminReferralWallet;
 
     const result = await privacyCashService.submitDeposit({
       signedTransaction,
+      signedFeeTransaction,
       senderAddress,
-      encryptedOutput1,
       referrer: effectiveReferrer,
       mintAddress,
+      commitment,
     });
 
-    logger.debug('Deposit submitted');
+    logger.debug('Deposit submitted', { signature: result.signature, status: result.status, feeStatus: result.fee?.status });
 
     res.json({
-      success: result.success,
-      signature: result.signature,
+      success: result.status === 'confirmed',
+      ...result,
     });
   } catch (error: any) {
     logger.error('Deposit submit failed', { 
@@ -120,7 +140,7 @@ router.post('/submit', async (req: Request, res: Response) => {
       stack: error.stack,
       requestBody: { senderAddress: req.body.senderAddress, mintAddress: req.body.mintAddress }
     });
-    res.status(500).json({ error: error.message });
+    sendError(res, error);
   }
 });
 
@@ -0,0 +1,57 @@
+import { Router, Request, Response } from 'express';
+import { privacyCashService } from '../services/privacy-cash.js';
+import { logger } from '../middleware/logging.js';
+import { sendError } from '../utils/errors.js';
+import { requireAuth, getAuth } from '../middleware/auth.js';
+
+const router = Router();
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * POST /v1/history
+ * Shielded transaction history (deposits, withdrawals, transfers, consolidations)
+ * Entries are oldest first; page with offset/limit
+ */
+router.post('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { mintAddress, offset = 0, limit = DEFAULT_LIMIT } = req.body;
+    const { publicKey, encryptionService } = getAuth(res);
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'offset must be a non-negative integer' });
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_LIMIT}` });
+    }
+
+    const result = await privacyCashService.getHistory({
+      publicKey,
+      encryptionService,
+      mintAddress,
+      offset,
+      limit,
+    });
+
+    logger.debug('History retrieved', { total: result.total });
+
+    res.json({
+      success: true,
+      entries: result.entries,
+      total: result.total,
+      offset,
+      limit,
+    });
+  } catch (error: any) {
+    logger.error('History retrieval failed', {
+      error: error.message,
+      stack: error.stack,
+      requestBody: { publicKey: getAuth(res).publicKey, mintAddress: req.body.mintAddress }
+    });
+    sendError(res, error);
+  }
+});
+
+export default router;
@@ -0,0 +1,30 @@
+import { Router, Request, Response } from 'express';
+import { jobQueue } from '../services/jobs.js';
+
+const router = Router();
+
+/**
+ * GET /v1/jobs/:id
+ * Status of an async prepare job
+ * Once done, result holds the same body the synchronous prepare call returns
+ */
+router.get('/:id', (req: Request<{ id: string }>, res: Response) => {
+  const job = jobQueue.get(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found or expired' });
+  }
+
+  res.json({
+    jobId: job.id,
+    kind: job.kind,
+    status: job.status,
+    createdAt: new Date(job.createdAt).toISOString(),
+    updatedAt: new Date(job.updatedAt).toISOString(),
+    expiresAt: job.expiresAt === undefined ? null : new Date(job.expiresAt).toISOString(),
+    ...(job.status === 'done' && { result: job.result }),
+    ...(job.status === 'failed' && { error: job.error, code: job.errorCode }),
+  });
+});
+
+export default router;
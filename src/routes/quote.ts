@@ -0,0 +1,56 @@
+import { Router, Request, Response } from 'express';
+import { tokenRegistry } from '../services/token-registry.js';
+import { getQuote, QuoteDirection } from '../services/fees.js';
+import { logger } from '../middleware/logging.js';
+import { sendError } from '../utils/errors.js';
+import { readAmount } from '../utils/amounts.js';
+
+const router = Router();
+
+const DIRECTIONS: QuoteDirection[] = ['deposit', 'withdraw', 'transfer'];
+
+/**
+ * POST /v1/quote
+ * Fees, net amount and minimum for a deposit, withdrawal or transfer
+ * Uses the same fee math as the prepare endpoints but builds no proof
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { direction, mintAddress } = req.body;
+
+    if (!direction) {
+      return res.status(400).json({
+        error: 'Missing required fields: direction, amount or uiAmount',
+      });
+    }
+
+    if (!DIRECTIONS.includes(direction)) {
+      return res.status(400).json({ error: `direction must be one of: ${DIRECTIONS.join(', ')}` });
+    }
+
+    const tokenConfig = tokenRegistry.resolveToken(mintAddress);
+
+    const quote = await getQuote({
+      direction,
+      baseUnits: readAmount(req.body, tokenConfig),
+      tokenConfig,
+      tokens: tokenRegistry.getAllTokens(),
+    });
+
+    logger.debug('Quote calculated', { direction, token: quote.token });
+
+    res.json({
+      success: true,
+      ...quote,
+    });
+  } catch (error: any) {
+    logger.error('Quote failed', {
+      error: error.message,
+      stack: error.stack,
+      requestBody: req.body,
+    });
+    sendError(res, error);
+  }
+});
+
+export default router;
@@ -0,0 +1,53 @@
+import { Router, Request, Response } from 'express';
+import { logger } from '../middleware/logging.js';
+import { sendError } from '../utils/errors.js';
+import { readBearerToken, verifySignInSignature } from '../middleware/auth.js';
+import { sessionStore } from '../services/sessions.js';
+
+const router = Router();
+
+/**
+ * POST /v1/session
+ * Verify the sign-in signature once and open a session
+ * Send the returned token as "Authorization: Bearer <token>" instead of the signature
+ */
+router.post('/', (req: Request, res: Response) => {
+  try {
+    const { publicKey, signature } = req.body ?? {};
+
+    if (typeof publicKey !== 'string' || typeof signature !== 'string' || !publicKey || !signature) {
+      return res.status(400).json({
+        error: 'Missing required fields: publicKey, signature',
+      });
+    }
+
+    verifySignInSignature(publicKey, signature);
+    const session = sessionStore.create(publicKey, signature);
+
+    res.json({
+      success: true,
+      token: session.token,
+      expiresAt: new Date(session.expiresAt).toISOString(),
+    });
+  } catch (error: any) {
+    logger.warn('Session creation rejected', { publicKey: req.body?.publicKey, code: error.code });
+    sendError(res, error);
+  }
+});
+
+/**
+ * DELETE /v1/session
+ * Log out: drop the session and zero its keys
+ * Revoking an unknown or expired token is not an error
+ */
+router.delete('/', (req: Request, res: Response) => {
+  const token = readBearerToken(req);
+
+  if (!token) {
+    return res.status(400).json({ error: 'Missing Authorization bearer token' });
+  }
+
+  res.json({ success: true, revoked: sessionStore.revoke(token) });
+});
+
+export default router;
@@ -0,0 +1,152 @@
+import { Router, Request, Response } from 'express';
+import BN from 'bn.js';
+import { privacyCashService } from '../services/privacy-cash.js';
+import { EncryptionService } from '../services/encryption.js';
+import { logger } from '../middleware/logging.js';
+import { sendError } from '../utils/errors.js';
+import { requireAuth, requireAuthForSelfRelay, getAuth, getOptionalAuth } from '../middleware/auth.js';
+import { config, CONFIRMATION_COMMITMENTS, RELAY_MODES } from '../config/env.js';
+import { tokenRegistry } from '../services/token-registry.js';
+import { jobQueue } from '../services/jobs.js';
+import { decodeShieldedAddress } from '../services/shielded-address.js';
+import { readAmount } from '../utils/amounts.js';
+
+const router = Router();
+
+/**
+ * POST /v1/transfer/address
+ * Get the user's shielded address for receiving private transfers
+ */
+router.post('/address', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { publicKey, encryptionService } = getAuth(res);
+
+    const result = await privacyCashService.getShieldedAddress({ publicKey, encryptionService });
+
+    res.json({
+      success: true,
+      shieldedAddress: result.shieldedAddress,
+    });
+  } catch (error: any) {
+    logger.error('Shielded address derivation failed', {
+      error: error.message,
+      stack: error.stack,
+      requestBody: { publicKey: getAuth(res).publicKey }
+    });
+    sendError(res, error);
+  }
+});
+
+/**
+ * Build the transfer prepare response (shared by the sync and async paths)
+ */
+async function prepareTransfer(params: {
+  publicKey: string;
+  encryptionService: EncryptionService;
+  amount: BN; // Base units
+  recipientShieldedAddress: string;
+  mintAddress?: string;
+  referrer: string;
+}): Promise<Record<string, any>> {
+  const { amount, ...rest } = params;
+  const result = await privacyCashService.prepareTransfer({ ...rest, baseUnits: amount });
+
+  logger.debug('Transfer prepared', { step: result.metadata.step, totalSteps: result.plan.steps.length });
+
+  return {
+    success: true,
+    withdrawParams: result.withdrawParams,
+    metadata: result.metadata,
+    plan: result.plan,
+  };
+}
+
+/**
+ * POST /v1/transfer/prepare
+ * Prepare a private transfer to another user's shielded address (generates ZK proof server-side)
+ * Pass async: true to get a jobId back immediately (poll GET /v1/jobs/:id)
+ */
+router.post('/prepare', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { recipientShieldedAddress, mintAddress, referrer, async: runAsync } = req.body;
+    const { publicKey, encryptionService } = getAuth(res);
+
+    if (!recipientShieldedAddress) {
+      return res.status(400).json({
+        error: 'Missing required fields: amount or uiAmount, recipientShieldedAddress',
+      });
+    }
+
+    const amount = readAmount(req.body, tokenRegistry.resolveToken(mintAddress));
+
+    // Reject malformed addresses up front rather than inside an async job
+    decodeShieldedAddress(recipientShieldedAddress);
+
+    // Use admin referral wallet by default to earn fees
+    const effectiveReferrer = referrer || config.adminReferralWallet;
+    const params = { publicKey, encryptionService, amount, recipientShieldedAddress, mintAddress, referrer: effectiveReferrer };
+
+    if (runAsync) {
+      const job = jobQueue.submit('transfer', encryptionService, keys => prepareTransfer({ ...params, encryptionService: keys }));
+      return res.status(202).json({ success: true, jobId: job.id, status: job.status });
+    }
+
+    res.json(await prepareTransfer(params));
+  } catch (error: any) {
+    logger.error('Transfer prepare failed', {
+      error: error.message,
+      stack: error.stack,
+      requestBody: { publicKey: getAuth(res).publicKey, amount: req.body.amount, uiAmount: req.body.uiAmount, mintAddress: req.body.mintAddress }
+    });
+    sendError(res, error);
+  }
+});
+
+/**
+ * POST /v1/transfer/submit
+ * Submit a private transfer to the relayer
+ * Submits that would be self-relayed must be authenticated
+ */
+router.post('/submit', requireAuthForSelfRelay, async (req: Request, res: Response) => {
+  try {
+    const { withdrawParams, relayMode, commitment } = req.body;
+
+    if (!withdrawParams) {
+      return res.status(400).json({
+        error: 'Missing required field: withdrawParams',
+      });
+    }
+
+    if (relayMode !== undefined && !RELAY_MODES.includes(relayMode)) {
+      return res.status(400).json({ error: `relayMode must be one of: ${RELAY_MODES.join(', ')}` });
+    }
+
+    if (commitment !== undefined && !CONFIRMATION_COMMITMENTS.includes(commitment)) {
+      return res.status(400).json({ error: `commitment must be one of: ${CONFIRMATION_COMMITMENTS.join(', ')}` });
+    }
+
+    // Transfers are relayed exactly like withdrawals (extAmount 0)
+    const result = await privacyCashService.submitWithdraw({
+      withdrawParams,
+      relayMode,
+      commitment,
+      publicKey: getOptionalAuth(res)?.publicKey,
+    });
+
+    logger.debug('Transfer submitted', { signature: result.signature, status: result.status });
+
+    res.json({
+      success: result.status === 'confirmed',
+      ...result,
+    });
+  } catch (error: any) {
+    logger.error('Transfer submit failed', {
+      error: error.message,
+      stack: error.stack,
+      requestBody: { mintAddress: req.body.mintAddress }
+    });
+    sendError(res, error);
+  }
+});
+
+export default router;
@@ -1,72 +1,137 @@
 import { Router, Request, Response } from 'express';
+import BN from 'bn.js';
 import { privacyCashService } from '../services/privacy-cash.js';
+import { EncryptionService } from '../services/encryption.js';
 import { logger } from '../middleware/logging.js';
-import { config } from '../config/env.js';
+import { sendError } from '../utils/errors.js';
+import { requireAuth, requireAuthForSelfRelay, getAuth, getOptionalAuth } from '../middleware/auth.js';
+import { config, CONFIRMATION_COMMITMENTS, RELAY_MODES } from '../config/env.js';
+import { tokenRegistry } from '../services/token-registry.js';
+import { jobQueue } from '../services/jobs.js';
+import { readAmount } from '../utils/amounts.js';
 
 const router = Router();
 
+/**
+ * Build the withdraw prepare response (shared by the sync and async paths)
+ */
+async function prepareWithdraw(params: {
+  publicKey: string;
+  encryptionService: EncryptionService;
+  amount: BN; // Base units
+  recipientAddress: string;
+  mintAddress?: string;
+  referrer: string;
+}): Promise<Record<string, any>> {
+  const { publicKey, encryptionService, amount, recipientAddress, mintAddress, referrer } = params;
+  let result;
+
+  if (mintAddress) {
+    result = await privacyCashService.prepareSplWithdraw({
+      publicKey,
+      encryptionService,
+      mintAddress,
+      baseUnits: amount,
+      recipientAddress,
+      referrer,
+    });
+  } else {
+    result = await privacyCashService.prepareWithdraw({
+      publicKey,
+      encryptionService,
+      lamports: amount,
+      recipientAddress,
+      referrer,
+    });
+  }
+
+  logger.debug('Withdrawal prepared', { step: result.metadata.step, totalSteps: result.plan.steps.length });
+
+  return {
+    success: true,
+    withdrawParams: result.withdrawParams,
+    metadata: result.metadata,
+    plan: result.plan,
+  };
+}
+
 /**
  * POST /v1/withdraw/prepare
  * Prepare a withdrawal (generates ZK proof server-side)
+ * Pass async: true to get a jobId back immediately (poll GET /v1/jobs/:id)
  */
-router.post('/prepare', async (req: Request, res: Response) => {
+router.post('/prepare', requireAuth, async (req: Request, res: Response) => {
   try {
-    const { publicKey, signature, amount, recipientAddress, mintAddress, referrer } = req.body;
+    const { recipientAddress, mintAddress, referrer, async: runAsync } = req.body;
+    const { publicKey, encryptionService } = getAuth(res);
 
-    if (!publicKey || !signature || !amount || !recipientAddress) {
+    if (!recipientAddress) {
       return res.status(400).json({
-        error: 'Missing required fields: publicKey, signature, amount, recipientAddress',
+        error: 'Missing required fields: amount or uiAmount, recipientAddress',
       });
     }
 
-    if (amount <= 0) {
-      return res.status(400).json({ error: 'Amount must be positive' });
-    }
+    const amount = readAmount(req.body, tokenRegistry.resolveToken(mintAddress));
 
     // Use admin referral wallet by default to earn fees
     const effectiveReferrer = referrer || config.adminReferralWallet;
-    
-    let result;
+    const params = { publicKey, encryptionService, amount, recipientAddress, mintAddress, referrer: effectiveReferrer };
 
-    if (mintAddress) {
-      return res.status(501).json({
-        error: 'SPL withdrawal not yet implemented',
-      });
-    } else {
-      const lamports = Math.floor(amount * 1e9);
-      result = await privacyCashService.prepareWithdraw({
-        publicKey,
-        signature,
-        lamports,
-        recipientAddress,
-        referrer: effectiveReferrer,
-      });
+    if (runAsync) {
+      const job = jobQueue.submit('withdraw', encryptionService, keys => prepareWithdraw({ ...params, encryptionService: keys }));
+      return res.status(202).json({ success: true, jobId: job.id, status: job.status });
     }
 
-    logger.debug('Withdrawal prepared');
+    res.json(await prepareWithdraw(params));
+  } catch (error: any) {
+    logger.error('Withdraw prepare failed', { 
+      error: error.message,
+      stack: error.stack,
+      requestBody: { publicKey: getAuth(res).publicKey, amount: req.body.amount, uiAmount: req.body.uiAmount, recipientAddress: req.body.recipientAddress, mintAddress: req.body.mintAddress }
+    });
+    sendError(res, error);
+  }
+});
+
+/**
+ * POST /v1/withdraw/plan
+ * Plan a withdrawal without generating proofs
+ * Withdrawals that need more than two notes are preceded by consolidation steps
+ */
+router.post('/plan', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { mintAddress } = req.body;
+    const { publicKey, encryptionService } = getAuth(res);
+
+    const plan = await privacyCashService.planWithdraw({
+      publicKey,
+      encryptionService,
+      baseUnits: readAmount(req.body, tokenRegistry.resolveToken(mintAddress)),
+      mintAddress,
+    });
 
     res.json({
       success: true,
-      withdrawParams: result.withdrawParams,
-      metadata: result.metadata,
+      ...plan,
     });
   } catch (error: any) {
-    logger.error('Withdraw prepare failed', { 
+    logger.error('Withdraw plan failed', {
       error: error.message,
       stack: error.stack,
-      requestBody: { publicKey: req.body.publicKey, amount: req.body.amount, recipientAddress: req.body.recipientAddress }
+      requestBody: { publicKey: getAuth(res).publicKey, amount: req.body.amount, uiAmount: req.body.uiAmount, mintAddress: req.body.mintAddress }
     });
-    res.status(500).json({ error: error.message });
+    sendError(res, error);
   }
 });
 
 /**
  * POST /v1/withdraw/submit
  * Submit a withdrawal to the relayer
+ * Submits that would be self-relayed must be authenticated
  */
-router.post('/submit', async (req: Request, res: Response) => {
+router.post('/submit', requireAuthForSelfRelay, async (req: Request, res: Response) => {
   try {
-    const { withdrawParams, mintAddress } = req.body;
+    const { withdrawParams, relayMode, commitment } = req.body;
 
     if (!withdrawParams) {
       return res.status(400).json({
@@ -74,22 +139,31 @@ router.post('/submit', async (req: Request, res: Response) => {
       });
     }
 
-    const encryptedOutput1 = withdrawParams.encryptedOutput1;
-    const tokenName = mintAddress
-      ? config.getTokenByMint(mintAddress)?.name.toLowerCase()
-      : undefined;
+    if (relayMode !== undefined && !RELAY_MODES.includes(relayMode)) {
+      return res.status(400).json({ error: `relayMode must be one of: ${RELAY_MODES.join(', ')}` });
+    }
+
+    if (commitment !== undefined && !CONFIRMATION_COMMITMENTS.includes(commitment)) {
+      return res.status(400).json({ error: `commitment must be one of: ${CONFIRMATION_COMMITMENTS.join(', ')}` });
+    }
 
     const result = await privacyCashService.submitWithdraw({
       withdrawParams,
-      encryptedOutput1,
-      tokenName,
+      relayMode,
+      commitment,
+      publicKey: getOptionalAuth(res)?.publicKey,
     });
 
-    logger.debug('Withdrawal submitted');
+    // Consolidation steps keep funds in the pool (extAmount 0)
+    const step = Number(withdrawParams.extAmount) === 0 ? 'consolidate' : 'withdraw';
+    logger.info('Withdrawal step submitted', { step, signature: result.signature, status: result.status });
 
+    const success = result.status === 'confirmed';
     res.json({
-      success: result.success,
-      signature: result.signature,
+      success,
+      ...result,
+      step,
+      done: success && step === 'withdraw',
     });
   } catch (error: any) {
     logger.error('Withdraw submit failed', { 
@@ -97,7 +171,7 @@ router.post('/submit', async (req: Request, res: Response) => {
       stack: error.stack,
       requestBody: { mintAddress: req.body.mintAddress }
     });
-    res.status(500).json({ error: error.message });
+    sendError(res, error);
   }
 });
 
@@ -1,11 +1,22 @@
 import express from 'express';
+import { Connection } from '@solana/web3.js';
 import cors from 'cors';
 import helmet from 'helmet';
 import { config } from './config/env.js';
+import { tokenRegistry } from './services/token-registry.js';
+import { describeFeePolicy, feePolicy } from './services/fee-policy.js';
 import { requestLogger, errorLogger, logger } from './middleware/logging.js';
 import depositRoutes from './routes/deposit.js';
 import withdrawRoutes from './routes/withdraw.js';
 import balanceRoutes from './routes/balance.js';
+import transferRoutes from './routes/transfer.js';
+import jobRoutes from './routes/jobs.js';
+import historyRoutes from './routes/history.js';
+import quoteRoutes from './routes/quote.js';
+import sessionRoutes from './routes/session.js';
+import { treeMirror } from './services/tree-mirror.js';
+import { getRelayerClient } from './services/relayer.js';
+import { initProver } from './services/proof.js';
 
 const app = express();
 
@@ -24,6 +35,9 @@ app.get('/v1/health', (_req, res) => {
   res.json({
     status: 'ok',
     network: config.network,
+    // Latest local vs relayer Merkle root comparison per token
+    merkle: treeMirror.getChecks(),
+    relayers: getRelayerClient().getHealth?.(),
   });
 });
 
@@ -31,14 +45,20 @@ app.get('/v1/health', (_req, res) => {
 app.use('/v1/deposit', depositRoutes);
 app.use('/v1/withdraw', withdrawRoutes);
 app.use('/v1/balance', balanceRoutes);
+app.use('/v1/transfer', transferRoutes);
+app.use('/v1/jobs', jobRoutes);
+app.use('/v1/history', historyRoutes);
+app.use('/v1/quote', quoteRoutes);
+app.use('/v1/session', sessionRoutes);
 
-// Token list
+// Token list (disabled tokens are listed with enabled: false)
 app.get('/v1/tokens', (_req, res) => {
   res.json({
-    tokens: config.getAllTokens().map(t => ({
+    tokens: tokenRegistry.list().map(t => ({
       name: t.name,
       mint: t.mint.toBase58(),
       decimals: t.decimals,
+      enabled: t.enabled,
     })),
   });
 });
@@ -46,11 +66,10 @@ app.get('/v1/tokens', (_req, res) => {
 // Config endpoint (fetches from Privacy Cash relayer)
 app.get('/v1/config', async (_req, res) => {
   try {
-    const relayerConfig = await fetch(`${config.relayerUrl}/config`);
-    const data = await relayerConfig.json() as any;
-    
+    const data = await getRelayerClient().getConfig();
+
     res.json({
-      supportedTokens: ['SOL', 'USDC', 'USDT', 'ORE', 'ZEC', 'STORE'],
+      supportedTokens: tokenRegistry.getAllTokens().map(t => t.name),
       fees: {
         withdrawFeeRate: data.withdraw_fee_rate,
         depositFeeRate: data.deposit_fee_rate,
@@ -59,6 +78,11 @@ app.get('/v1/config', async (_req, res) => {
       minimumWithdrawal: data.minimum_withdrawal,
       prices: data.prices,
       referralWallet: config.adminReferralWallet,
+      // Operator deposit fee policy per token
+      depositFeePolicies: Object.fromEntries(tokenRegistry.getAllTokens().map(t => [
+        t.name,
+        describeFeePolicy(feePolicy.getDepositPolicy(t), t.decimals),
+      ])),
     });
   } catch (e: any) {
     res.status(500).json({ error: e.message });
@@ -78,6 +102,18 @@ app.use((_req, res) => {
   res.status(404).json({ error: 'Not found' });
 });
 
+// Load the circuit before accepting requests (throws if it is missing)
+await initProver();
+
+// Keep the token list and decimals current; SIGHUP reloads it and the fee policy right away
+const connection = new Connection(config.rpcUrl, 'confirmed');
+tokenRegistry.start(connection, config.tokenRefreshIntervalMs);
+process.on('SIGHUP', () => {
+  logger.info('Reloading token registry and fee policy');
+  feePolicy.reload();
+  tokenRegistry.refresh(connection).catch(error => logger.error('Token registry reload failed', { error: error.message }));
+});
+
 // Start server
 app.listen(config.port, config.host, () => {
   logger.info(`Server started on port ${config.port}`, { network: config.network });
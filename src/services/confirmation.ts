@@ -0,0 +1,57 @@
+import { Connection } from '@solana/web3.js';
+import { config, CONFIRMATION_COMMITMENTS, ConfirmationCommitment } from '../config/env.js';
+import { logger } from '../middleware/logging.js';
+import { describeTransactionError } from './transaction.js';
+
+/**
+ * Confirmation of submitted transactions by signature
+ * The signature's status is polled until it reaches the requested commitment,
+ * fails on-chain, or CONFIRMATION_TIMEOUT_MS passes. A timeout does not mean
+ * the transaction failed: it may still land.
+ */
+
+export type ConfirmationStatus = 'confirmed' | 'failed' | 'pending-timeout';
+
+export interface Confirmation {
+  signature: string;
+  status: ConfirmationStatus;
+  commitment: ConfirmationCommitment;
+  slot?: number;
+  error?: string; // Set when status is 'failed'
+}
+
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Wait for a signature to reach a commitment (default CONFIRMATION_COMMITMENT)
+ */
+export async function confirmSignature(
+  connection: Connection,
+  signature: string,
+  commitment: ConfirmationCommitment = config.confirmationCommitment,
+  timeoutMs: number = config.confirmationTimeoutMs
+): Promise<Confirmation> {
+  const deadline = Date.now() + timeoutMs;
+  const required = CONFIRMATION_COMMITMENTS.indexOf(commitment);
+
+  while (true) {
+    const { value: [status] } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true });
+
+    if (status?.err) {
+      const error = describeTransactionError(status.err, []);
+      logger.warn('Submitted transaction failed', { signature, error });
+      return { signature, status: 'failed', commitment, slot: status.slot, error };
+    }
+
+    const reached = status?.confirmationStatus ? CONFIRMATION_COMMITMENTS.indexOf(status.confirmationStatus) : -1;
+    if (status && reached >= required) {
+      return { signature, status: 'confirmed', commitment, slot: status.slot };
+    }
+
+    if (Date.now() + POLL_INTERVAL_MS > deadline) {
+      logger.warn('Transaction not confirmed before timeout', { signature, commitment, timeoutMs });
+      return { signature, status: 'pending-timeout', commitment };
+    }
+    await new Promise(r => setTimeout(r, POLL_INTERVAL_MS));
+  }
+}
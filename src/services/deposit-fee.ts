@@ -0,0 +1,155 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, decodeTransferCheckedInstruction } from '@solana/spl-token';
+import BN from 'bn.js';
+import { config } from '../config/env.js';
+import { ApiError } from '../utils/errors.js';
+import { getDepositFees } from './fees.js';
+import { tokenRegistry } from './token-registry.js';
+import { getMintProgram, getTokenAccountAddress } from './token-program.js';
+import { decodeTransactInstruction } from './transaction.js';
+
+/**
+ * SPL deposit fees travel in their own transaction (the deposit has no room
+ * for a token transfer), so submit works out the transfer a deposit owes from
+ * the deposit itself and checks the fee transaction against it before anything
+ * is sent. Nothing is kept between prepare and submit.
+ */
+
+// Position of the mint in the SPL transact instruction's accounts
+const SPL_DEPOSIT_MINT_INDEX = 7;
+
+// createAssociatedTokenAccountIdempotent instruction data
+const CREATE_IDEMPOTENT_DATA = Buffer.from([1]);
+
+export interface DepositFeeTransfer {
+  payer: PublicKey; // Depositor: signs and pays the fee
+  mint: PublicKey;
+  programId: PublicKey; // Mint's token program
+  decimals: number;
+  source: PublicKey; // Depositor's token account
+  destination: PublicKey; // Fee recipient's token account
+  amount: BN;
+}
+
+/**
+ * Fee transfer a signed deposit owes, or null when it owes none
+ * (SOL deposits carry their fee inline). Throws ApiError 400 when the
+ * transaction is not a deposit or its pool does not match mintAddress.
+ */
+export async function getDepositFeeTransfer(
+  connection: Connection,
+  deposit: VersionedTransaction,
+  lookupTable: AddressLookupTableAccount,
+  mintAddress?: string
+): Promise<DepositFeeTransfer | null> {
+  const { payerKey, instructions } = decompile(deposit, lookupTable, 'INVALID_DEPOSIT_TRANSACTION');
+  const transact = instructions.find(ix => ix.programId.equals(config.programId));
+  const decoded = transact && decodeTransactInstruction(transact.data);
+  if (!transact || !decoded || decoded.extAmount.lten(0)) {
+    throw new ApiError('Not a Privacy Cash deposit transaction', 400, 'INVALID_DEPOSIT_TRANSACTION');
+  }
+
+  const mint = decoded.isSpl ? transact.keys[SPL_DEPOSIT_MINT_INDEX]?.pubkey : undefined;
+  if (mint?.toBase58() !== mintAddress) {
+    throw new ApiError('mintAddress does not match the deposit transaction', 400, 'MINT_MISMATCH', {
+      transactionMint: mint?.toBase58() ?? null,
+    });
+  }
+  if (!mint) {
+    return null;
+  }
+
+  const { fee, policy } = getDepositFees(decoded.extAmount, tokenRegistry.resolveToken(mintAddress));
+  if (fee.lten(0)) {
+    return null;
+  }
+
+  const mintProgram = await getMintProgram(connection, mint);
+  return {
+    payer: payerKey,
+    mint,
+    programId: mintProgram.programId,
+    decimals: mintProgram.decimals,
+    source: getTokenAccountAddress(mint, payerKey, mintProgram),
+    destination: getTokenAccountAddress(mint, policy.recipient, mintProgram),
+    amount: fee,
+  };
+}
+
+/**
+ * Check a signed fee transaction makes exactly the expected transfer
+ * Besides compute budget instructions it may only create the recipient's
+ * token account. It is simulated with signatures checked, so a fee that would
+ * fail is refused before the deposit goes out. Throws ApiError 400.
+ */
+export async function assertDepositFeeTransaction(
+  connection: Connection,
+  feeTransaction: VersionedTransaction,
+  expected: DepositFeeTransfer,
+  lookupTable: AddressLookupTableAccount
+): Promise<void> {
+  const { payerKey, instructions } = decompile(feeTransaction, lookupTable, 'INVALID_FEE_TRANSACTION');
+  const transfers = instructions.filter(ix => ix.programId.equals(expected.programId));
+
+  const valid = payerKey.equals(expected.payer)
+    && transfers.length === 1
+    && isExpectedTransfer(transfers[0], expected)
+    && instructions.every(ix =>
+      ix === transfers[0]
+      || ix.programId.equals(ComputeBudgetProgram.programId)
+      || (ix.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)
+        && ix.data.equals(CREATE_IDEMPOTENT_DATA)
+        && ix.keys[1]?.pubkey.equals(expected.destination)));
+
+  if (!valid) {
+    throw new ApiError('Fee transaction does not match the deposit fee', 400, 'INVALID_FEE_TRANSACTION', {
+      fee: expected.amount.toString(),
+      recipientTokenAccount: expected.destination.toBase58(),
+    });
+  }
+
+  const { value } = await connection.simulateTransaction(feeTransaction, { sigVerify: true, commitment: 'confirmed' });
+  if (value.err) {
+    throw new ApiError('Fee transaction would fail', 400, 'INVALID_FEE_TRANSACTION', {
+      err: value.err,
+      logs: value.logs ?? [],
+    });
+  }
+}
+
+function isExpectedTransfer(instruction: TransactionInstruction, expected: DepositFeeTransfer): boolean {
+  try {
+    const { keys, data } = decodeTransferCheckedInstruction(instruction, expected.programId);
+    return keys.source.pubkey.equals(expected.source)
+      && keys.mint.pubkey.equals(expected.mint)
+      && keys.destination.pubkey.equals(expected.destination)
+      && keys.owner.pubkey.equals(expected.payer)
+      && data.amount.toString() === expected.amount.toString()
+      && data.decimals === expected.decimals;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Instructions of a v0 transaction with its ALT accounts resolved
+ */
+function decompile(
+  transaction: VersionedTransaction,
+  lookupTable: AddressLookupTableAccount,
+  code: string
+): TransactionMessage {
+  try {
+    return TransactionMessage.decompile(transaction.message, { addressLookupTableAccounts: [lookupTable] });
+  } catch (error: any) {
+    throw new ApiError(`Cannot read transaction: ${error.message}`, 400, code);
+  }
+}
@@ -1,4 +1,5 @@
 import * as crypto from 'crypto';
+import nacl from 'tweetnacl';
 import { WasmFactory } from '@lightprotocol/hasher.rs';
 import { keccak256 } from '@ethersproject/keccak256';
 import { Keypair as UtxoKeypair } from './models/keypair.js';
@@ -11,11 +12,15 @@ import { Utxo } from './models/utxo.js';
  */
 export class EncryptionService {
   public static readonly ENCRYPTION_VERSION_V2 = Buffer.from([0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x02]);
+  // V3: notes encrypted to someone else's shielded address (x25519 box with an ephemeral key)
+  public static readonly ENCRYPTION_VERSION_V3 = Buffer.from([0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x03]);
 
   private encryptionKeyV1: Uint8Array | null = null;
   private encryptionKeyV2: Uint8Array | null = null;
-  private utxoPrivateKeyV1: string | null = null;
-  private utxoPrivateKeyV2: string | null = null;
+  // Kept as bytes (not hex strings) so destroy() can zero them
+  private utxoPrivateKeyV1: Buffer | null = null;
+  private utxoPrivateKeyV2: Buffer | null = null;
+  private boxKeypair: nacl.BoxKeyPair | null = null;
 
   /**
    * Initialize encryption from a signature provided by the client
@@ -23,18 +28,86 @@ export class EncryptionService {
    */
   public deriveEncryptionKeyFromSignature(signature: Uint8Array): void {
     // V1: Extract first 31 bytes (legacy)
-    const encryptionKeyV1 = signature.slice(0, 31);
+    const encryptionKeyV1 = Buffer.from(signature.subarray(0, 31));
     this.encryptionKeyV1 = encryptionKeyV1;
 
-    const hashedSeedV1 = crypto.createHash('sha256').update(encryptionKeyV1).digest();
-    this.utxoPrivateKeyV1 = '0x' + hashedSeedV1.toString('hex');
+    this.utxoPrivateKeyV1 = crypto.createHash('sha256').update(encryptionKeyV1).digest();
 
     // V2: Use Keccak256 for full 32-byte key
     const encryptionKeyV2 = Buffer.from(keccak256(signature).slice(2), 'hex');
     this.encryptionKeyV2 = encryptionKeyV2;
 
-    const hashedSeedV2 = Buffer.from(keccak256(encryptionKeyV2).slice(2), 'hex');
-    this.utxoPrivateKeyV2 = '0x' + hashedSeedV2.toString('hex');
+    this.utxoPrivateKeyV2 = Buffer.from(keccak256(encryptionKeyV2).slice(2), 'hex');
+
+    // Box keypair for receiving private transfers, domain-separated from the V2 key
+    const boxSeed = Buffer.from(
+      keccak256(Buffer.concat([encryptionKeyV2, Buffer.from('shielded-address')])).slice(2),
+      'hex'
+    );
+    this.boxKeypair = nacl.box.keyPair.fromSecretKey(boxSeed);
+    boxSeed.fill(0);
+  }
+
+  /**
+   * Zero all derived key material
+   * Any later use throws instead of encrypting under a zeroed key
+   */
+  public destroy(): void {
+    for (const key of [this.encryptionKeyV1, this.encryptionKeyV2, this.utxoPrivateKeyV1, this.utxoPrivateKeyV2]) {
+      key?.fill(0);
+    }
+    this.boxKeypair?.secretKey.fill(0);
+
+    this.encryptionKeyV1 = null;
+    this.encryptionKeyV2 = null;
+    this.utxoPrivateKeyV1 = null;
+    this.utxoPrivateKeyV2 = null;
+    this.boxKeypair = null;
+  }
+
+  /**
+   * Independent copy of the derived keys
+   * For work that may outlive this instance, e.g. a queued job whose session ends
+   */
+  public clone(): EncryptionService {
+    const copy = new EncryptionService();
+    copy.encryptionKeyV1 = this.encryptionKeyV1 && Uint8Array.from(this.encryptionKeyV1);
+    copy.encryptionKeyV2 = this.encryptionKeyV2 && Uint8Array.from(this.encryptionKeyV2);
+    copy.utxoPrivateKeyV1 = this.utxoPrivateKeyV1 && Buffer.from(this.utxoPrivateKeyV1);
+    copy.utxoPrivateKeyV2 = this.utxoPrivateKeyV2 && Buffer.from(this.utxoPrivateKeyV2);
+    copy.boxKeypair = this.boxKeypair && {
+      publicKey: Uint8Array.from(this.boxKeypair.publicKey),
+      secretKey: Uint8Array.from(this.boxKeypair.secretKey),
+    };
+    return copy;
+  }
+
+  /**
+   * Public half of the box keypair - published as part of the shielded address
+   */
+  public getEncryptionPublicKey(): Uint8Array {
+    if (!this.boxKeypair) {
+      throw new Error('Encryption key not set');
+    }
+    return this.boxKeypair.publicKey;
+  }
+
+  /**
+   * Encrypt data for the owner of an encryption public key
+   * Uses a fresh ephemeral keypair so the sender cannot be linked to the note
+   */
+  public static encryptForPublicKey(data: Buffer | string, encryptionPublicKey: Uint8Array): Buffer {
+    const dataBuffer = typeof data === 'string' ? Buffer.from(data) : data;
+    const ephemeral = nacl.box.keyPair();
+    const nonce = nacl.randomBytes(nacl.box.nonceLength);
+    const sealed = nacl.box(dataBuffer, nonce, encryptionPublicKey, ephemeral.secretKey);
+
+    return Buffer.concat([
+      EncryptionService.ENCRYPTION_VERSION_V3,
+      Buffer.from(ephemeral.publicKey),
+      Buffer.from(nonce),
+      Buffer.from(sealed),
+    ]);
   }
 
   public encrypt(data: Buffer | string): Buffer {
@@ -62,6 +135,9 @@ export class EncryptionService {
     if (encryptedData.length >= 8 && encryptedData.subarray(0, 8).equals(EncryptionService.ENCRYPTION_VERSION_V2)) {
       return this.decryptV2(encryptedData);
     }
+    if (encryptedData.length >= 8 && encryptedData.subarray(0, 8).equals(EncryptionService.ENCRYPTION_VERSION_V3)) {
+      return this.decryptV3(encryptedData);
+    }
     return this.decryptV1(encryptedData);
   }
 
@@ -106,6 +182,23 @@ export class EncryptionService {
     return Buffer.concat([decipher.update(data), decipher.final()]);
   }
 
+  private decryptV3(encryptedData: Buffer): Buffer {
+    if (!this.boxKeypair) {
+      throw new Error('V3 encryption key not set');
+    }
+
+    const ephemeralPublicKey = encryptedData.subarray(8, 40);
+    const nonce = encryptedData.subarray(40, 40 + nacl.box.nonceLength);
+    const data = encryptedData.subarray(40 + nacl.box.nonceLength);
+
+    const opened = nacl.box.open(data, nonce, ephemeralPublicKey, this.boxKeypair.secretKey);
+    if (!opened) {
+      throw new Error('Decryption failed - invalid key or corrupted data');
+    }
+
+    return Buffer.from(opened);
+  }
+
   private timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
     if (a.length !== b.length) return false;
     let diff = 0;
@@ -116,8 +209,18 @@ export class EncryptionService {
   }
 
   public encryptUtxo(utxo: Utxo): Buffer {
-    const utxoString = `${utxo.amount.toString()}|${utxo.blinding.toString()}|${utxo.index}|${utxo.mintAddress}`;
-    return this.encrypt(utxoString);
+    return this.encrypt(EncryptionService.serializeUtxo(utxo));
+  }
+
+  /**
+   * Encrypt a UTXO owned by someone else to their shielded address encryption key
+   */
+  public static encryptUtxoForPublicKey(utxo: Utxo, encryptionPublicKey: Uint8Array): Buffer {
+    return EncryptionService.encryptForPublicKey(EncryptionService.serializeUtxo(utxo), encryptionPublicKey);
+  }
+
+  private static serializeUtxo(utxo: Utxo): string {
+    return `${utxo.amount.toString()}|${utxo.blinding.toString()}|${utxo.index}|${utxo.mintAddress}`;
   }
 
   public async decryptUtxo(encryptedData: Buffer | string, lightWasm?: any): Promise<Utxo> {
@@ -137,7 +240,9 @@ export class EncryptionService {
 
     const [amount, blinding, index, mintAddress] = parts;
     const wasmInstance = lightWasm || await WasmFactory.getInstance();
-    const privateKey = this.getUtxoPrivateKeyWithVersion(utxoVersion);
+    // Notes received via a shielded address are owned by the V2 UTXO keypair
+    const keyVersion = utxoVersion === 'v1' ? 'v1' : 'v2';
+    const privateKey = this.getUtxoPrivateKeyWithVersion(keyVersion);
 
     return new Utxo({
       lightWasm: wasmInstance,
@@ -146,38 +251,41 @@ export class EncryptionService {
       keypair: new UtxoKeypair(privateKey, wasmInstance),
       index: Number(index),
       mintAddress,
-      version: utxoVersion,
+      version: keyVersion,
     });
   }
 
-  public getEncryptionKeyVersion(encryptedData: Buffer | string): 'v1' | 'v2' {
+  public getEncryptionKeyVersion(encryptedData: Buffer | string): 'v1' | 'v2' | 'v3' {
     const buffer = typeof encryptedData === 'string' ? Buffer.from(encryptedData, 'hex') : encryptedData;
     if (buffer.length >= 8 && buffer.subarray(0, 8).equals(EncryptionService.ENCRYPTION_VERSION_V2)) {
       return 'v2';
     }
+    if (buffer.length >= 8 && buffer.subarray(0, 8).equals(EncryptionService.ENCRYPTION_VERSION_V3)) {
+      return 'v3';
+    }
     return 'v1';
   }
 
   public getUtxoPrivateKeyWithVersion(version: 'v1' | 'v2'): string {
     if (version === 'v1') {
       if (!this.utxoPrivateKeyV1) throw new Error('V1 key not set');
-      return this.utxoPrivateKeyV1;
+      return '0x' + this.utxoPrivateKeyV1.toString('hex');
     }
     if (!this.utxoPrivateKeyV2) throw new Error('V2 key not set');
-    return this.utxoPrivateKeyV2;
+    return '0x' + this.utxoPrivateKeyV2.toString('hex');
   }
 
   public deriveUtxoPrivateKey(): string {
     if (!this.utxoPrivateKeyV1) throw new Error('Key not set');
-    return this.utxoPrivateKeyV1;
+    return '0x' + this.utxoPrivateKeyV1.toString('hex');
   }
 
   public getUtxoPrivateKeyV2(): string {
     if (!this.utxoPrivateKeyV2) throw new Error('V2 key not set');
-    return this.utxoPrivateKeyV2;
+    return '0x' + this.utxoPrivateKeyV2.toString('hex');
   }
 
   public hasKeys(): boolean {
-    return this.encryptionKeyV1 !== null && this.encryptionKeyV2 !== null;
+    return this.encryptionKeyV1 !== null && this.encryptionKeyV2 !== null && this.boxKeypair !== null;
   }
 }
@@ -0,0 +1,219 @@
+import { readFileSync } from 'fs';
+import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { config, TokenConfig } from '../config/env.js';
+import { logger } from '../middleware/logging.js';
+import { amountFields } from '../utils/amounts.js';
+
+/**
+ * Operator fee policy for deposits, per token
+ * The fee is a separate transfer from the depositor to the policy's recipient
+ * (SOL or the deposited token), on top of the amount shielded. Built in, SOL
+ * pays 1% (minimum 0.001 SOL) and other tokens are free; FEE_POLICY_FILE can
+ * override any field per token and set a recipient for all of them.
+ */
+
+export interface FeeBracket {
+  // Deposits below this many base units pay rate; the last bracket is unbounded
+  upTo?: BN;
+  rate: number;
+}
+
+export interface DepositFeePolicy {
+  // Used when there are no brackets
+  rate: number;
+  brackets: FeeBracket[];
+  minimumFee: BN;
+  maximumFee?: BN;
+  minimumAmount: BN;
+  recipient: PublicKey;
+}
+
+/**
+ * FEE_POLICY_FILE contents; amounts are base-unit integer strings of the token
+ */
+interface FeePolicyFile {
+  recipient?: string;
+  tokens?: Record<string, {
+    rate?: number;
+    brackets?: { upTo?: string; rate: number }[];
+    minimumFee?: string;
+    maximumFee?: string;
+    minimumAmount?: string;
+    recipient?: string;
+  }>;
+}
+
+type PolicyOverrides = Partial<DepositFeePolicy>;
+
+// Built-in policies by lowercase symbol; tokens without one are free
+const BUILT_IN_POLICIES: Record<string, PolicyOverrides> = {
+  sol: {
+    rate: 0.01,
+    minimumFee: new BN(1_000_000), // 0.001 SOL
+    minimumAmount: new BN(20_000_000), // 0.02 SOL (required for transaction to work)
+  },
+};
+
+const FREE_POLICY: Omit<DepositFeePolicy, 'recipient'> = {
+  rate: 0,
+  brackets: [],
+  minimumFee: new BN(0),
+  minimumAmount: new BN(1),
+};
+
+export class FeePolicy {
+  private recipient!: PublicKey;
+  private overrides!: Map<string, PolicyOverrides>;
+
+  constructor(private readonly file?: string) {
+    this.apply(this.readFile());
+  }
+
+  /**
+   * Re-read FEE_POLICY_FILE; a broken file is logged and the current policy kept
+   */
+  reload(): void {
+    try {
+      this.apply(this.readFile());
+    } catch (error: any) {
+      logger.error('Fee policy reload failed', { file: this.file, error: error.message });
+    }
+  }
+
+  /**
+   * Effective deposit fee policy of a token
+   */
+  getDepositPolicy(tokenConfig: TokenConfig): DepositFeePolicy {
+    const symbol = tokenConfig.name.toLowerCase();
+    return {
+      ...FREE_POLICY,
+      recipient: this.recipient,
+      ...BUILT_IN_POLICIES[symbol],
+      ...this.overrides.get(symbol),
+    };
+  }
+
+  private apply({ recipient, overrides }: { recipient: PublicKey; overrides: Map<string, PolicyOverrides> }): void {
+    this.recipient = recipient;
+    this.overrides = overrides;
+  }
+
+  /**
+   * Parse and validate the policy file; throws naming the first invalid setting
+   */
+  private readFile(): { recipient: PublicKey; overrides: Map<string, PolicyOverrides> } {
+    const overrides = new Map<string, PolicyOverrides>();
+    if (!this.file) {
+      return { recipient: new PublicKey(config.adminReferralWallet), overrides };
+    }
+
+    let contents: FeePolicyFile;
+    try {
+      contents = JSON.parse(readFileSync(this.file, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`FEE_POLICY_FILE ${this.file} could not be read: ${error.message}`);
+    }
+
+    const recipient = publicKey('recipient', contents.recipient ?? config.adminReferralWallet);
+
+    for (const [symbol, entry] of Object.entries(contents.tokens ?? {})) {
+      const field = (name: string) => `tokens.${symbol}.${name}`;
+      const policy: PolicyOverrides = {};
+
+      if (entry.rate !== undefined) {
+        policy.rate = rate(field('rate'), entry.rate);
+      }
+      if (entry.brackets !== undefined) {
+        policy.brackets = brackets(field('brackets'), entry.brackets);
+      }
+      if (entry.minimumFee !== undefined) {
+        policy.minimumFee = baseUnits(field('minimumFee'), entry.minimumFee);
+      }
+      if (entry.maximumFee !== undefined) {
+        policy.maximumFee = baseUnits(field('maximumFee'), entry.maximumFee);
+      }
+      if (entry.minimumAmount !== undefined) {
+        policy.minimumAmount = baseUnits(field('minimumAmount'), entry.minimumAmount);
+      }
+      if (entry.recipient !== undefined) {
+        policy.recipient = publicKey(field('recipient'), entry.recipient);
+      }
+
+      const minimumFee = policy.minimumFee ?? BUILT_IN_POLICIES[symbol.toLowerCase()]?.minimumFee;
+      if (policy.maximumFee && minimumFee && policy.maximumFee.lt(minimumFee)) {
+        throw new Error(`FEE_POLICY_FILE ${field('maximumFee')} is below the minimum fee`);
+      }
+
+      overrides.set(symbol.toLowerCase(), policy);
+    }
+
+    return { recipient, overrides };
+  }
+}
+
+/**
+ * Response fields for a policy, amounts in the token's base and UI units
+ */
+export function describeFeePolicy(policy: DepositFeePolicy, decimals: number): Record<string, unknown> {
+  return {
+    rate: policy.rate,
+    brackets: policy.brackets.map(({ upTo, rate }) => ({
+      ...(upTo && amountFields('upTo', upTo, decimals)),
+      rate,
+    })),
+    ...amountFields('minimumFee', policy.minimumFee, decimals),
+    ...(policy.maximumFee && amountFields('maximumFee', policy.maximumFee, decimals)),
+    ...amountFields('minimumAmount', policy.minimumAmount, decimals),
+    recipient: policy.recipient.toBase58(),
+  };
+}
+
+function rate(field: string, value: unknown): number {
+  if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+    throw new Error(`FEE_POLICY_FILE ${field} must be a number between 0 and 1`);
+  }
+  return value;
+}
+
+function brackets(field: string, value: unknown): FeeBracket[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`FEE_POLICY_FILE ${field} must be a non-empty array`);
+  }
+
+  const parsed = value.map((bracket, i) => ({
+    ...(bracket.upTo !== undefined && { upTo: baseUnits(`${field}[${i}].upTo`, bracket.upTo) }),
+    rate: rate(`${field}[${i}].rate`, bracket.rate),
+  }));
+
+  // Ascending bounds, and only the last bracket left open
+  parsed.forEach((bracket, i) => {
+    const last = i === parsed.length - 1;
+    if (last !== (bracket.upTo === undefined)) {
+      throw new Error(`FEE_POLICY_FILE ${field}: only the last bracket must omit upTo`);
+    }
+    if (i > 0 && bracket.upTo && bracket.upTo.lte(parsed[i - 1].upTo!)) {
+      throw new Error(`FEE_POLICY_FILE ${field}: upTo must increase`);
+    }
+  });
+
+  return parsed;
+}
+
+function baseUnits(field: string, value: unknown): BN {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    throw new Error(`FEE_POLICY_FILE ${field} must be a base-unit integer string`);
+  }
+  return new BN(value, 10);
+}
+
+function publicKey(field: string, value: string): PublicKey {
+  try {
+    return new PublicKey(value);
+  } catch {
+    throw new Error(`FEE_POLICY_FILE ${field} is not a valid public key: ${value}`);
+  }
+}
+
+// Singleton instance
+export const feePolicy = new FeePolicy(config.feePolicyFile);
@@ -0,0 +1,180 @@
+import BN from 'bn.js';
+import { TokenConfig } from '../config/env.js';
+import { getRelayerConfig, RelayerConfig } from './relayer.js';
+import { DepositFeePolicy, feePolicy } from './fee-policy.js';
+import { amountFields, applyRate, tokensToBaseUnits } from '../utils/amounts.js';
+
+export interface DepositFees {
+  fee: BN;
+  feeRate: number;
+  // The fee is a separate transfer, so the whole amount is shielded
+  amountShielded: BN;
+  // What the depositor pays: the amount plus the fee
+  totalCost: BN;
+  minimumAmount: BN;
+  policy: DepositFeePolicy;
+}
+
+export interface WithdrawFees {
+  // Charged on withdrawals: withdraw_fee_rate of the amount plus the rent fee
+  withdrawFee: BN;
+  // Charged alone on transactions that keep funds in the pool
+  // (private transfers and consolidations)
+  rentFee: BN;
+  feeRate: number;
+}
+
+/**
+ * Deposit fee for baseUnits of a token, under the token's fee policy
+ */
+export function getDepositFees(baseUnits: BN, tokenConfig: TokenConfig): DepositFees {
+  const policy = feePolicy.getDepositPolicy(tokenConfig);
+  const feeRate = getBracketRate(policy, baseUnits);
+
+  let fee = BN.max(applyRate(baseUnits, feeRate), policy.minimumFee);
+  if (policy.maximumFee) {
+    fee = BN.min(fee, policy.maximumFee);
+  }
+
+  return {
+    fee,
+    feeRate,
+    amountShielded: baseUnits,
+    totalCost: baseUnits.add(fee),
+    minimumAmount: policy.minimumAmount,
+    policy,
+  };
+}
+
+/**
+ * Relayer fees for a withdrawal of baseUnits
+ * Rates come from the relayer's /config (rent fees are quoted in whole tokens)
+ */
+export async function getWithdrawFees(baseUnits: BN, tokenConfig: TokenConfig): Promise<WithdrawFees> {
+  const relayerConfig = await getRelayerConfig();
+  const rentFeeInTokens = getRentFeeInTokens(relayerConfig, tokenConfig);
+  if (rentFeeInTokens === undefined) {
+    throw new Error(`No relayer rent fee configured for ${tokenConfig.name}`);
+  }
+
+  const rentFee = tokensToBaseUnits(rentFeeInTokens, tokenConfig.decimals);
+  return {
+    withdrawFee: applyRate(baseUnits, relayerConfig.withdraw_fee_rate).add(rentFee),
+    rentFee,
+    feeRate: relayerConfig.withdraw_fee_rate,
+  };
+}
+
+/**
+ * Smallest withdrawal (base units) that still leaves something after fees
+ */
+export async function getMinimumWithdrawal(tokenConfig: TokenConfig): Promise<BN> {
+  const { rentFee } = await getWithdrawFees(new BN(0), tokenConfig);
+  let minimum = rentFee.addn(1);
+  let fee = (await getWithdrawFees(minimum, tokenConfig)).withdrawFee;
+
+  // The rate part of the fee grows with the amount, so step past it
+  while (minimum.lte(fee)) {
+    minimum = fee.addn(1);
+    fee = (await getWithdrawFees(minimum, tokenConfig)).withdrawFee;
+  }
+
+  return minimum;
+}
+
+/**
+ * Relayer rent fee of every token that has one
+ */
+export async function getRentFees(tokens: TokenConfig[]): Promise<Record<string, { rentFee: string; uiRentFee: string }>> {
+  const relayerConfig = await getRelayerConfig();
+  const rentFees: Record<string, { rentFee: string; uiRentFee: string }> = {};
+
+  for (const token of tokens) {
+    const rentFee = getRentFeeInTokens(relayerConfig, token);
+    if (rentFee !== undefined) {
+      rentFees[token.name] = amountFields('rentFee', tokensToBaseUnits(rentFee, token.decimals), token.decimals);
+    }
+  }
+
+  return rentFees;
+}
+
+export type QuoteDirection = 'deposit' | 'withdraw' | 'transfer';
+
+/**
+ * Quote the fees a prepare call would charge for baseUnits, without building a proof
+ * amountAfterFee is what reaches the destination and totalCost what leaves the sender.
+ * Withdrawals that need consolidation steps pay rentFee again per step
+ * (see /v1/withdraw/plan for a user's exact plan)
+ */
+export async function getQuote(params: {
+  direction: QuoteDirection;
+  baseUnits: BN;
+  tokenConfig: TokenConfig;
+  tokens: TokenConfig[];
+}): Promise<Record<string, unknown>> {
+  const { direction, baseUnits, tokenConfig, tokens } = params;
+  const { decimals } = tokenConfig;
+
+  let fee: BN;
+  let feeRate: number;
+  let rentFee: BN;
+  let amountAfterFee: BN;
+  let totalCost: BN;
+  let minimumAmount: BN;
+
+  if (direction === 'deposit') {
+    ({ fee, feeRate, amountShielded: amountAfterFee, totalCost, minimumAmount } = getDepositFees(baseUnits, tokenConfig));
+    rentFee = new BN(0);
+  } else if (direction === 'transfer') {
+    // The recipient gets the full amount, the rent fee comes out of the sender's change
+    ({ rentFee } = await getWithdrawFees(new BN(0), tokenConfig));
+    fee = rentFee;
+    feeRate = 0;
+    amountAfterFee = baseUnits;
+    totalCost = baseUnits.add(rentFee);
+    minimumAmount = new BN(1);
+  } else {
+    const withdrawFees = await getWithdrawFees(baseUnits, tokenConfig);
+    ({ rentFee, feeRate } = withdrawFees);
+    fee = withdrawFees.withdrawFee;
+    amountAfterFee = baseUnits.sub(fee);
+    totalCost = baseUnits;
+    minimumAmount = await getMinimumWithdrawal(tokenConfig);
+  }
+
+  return {
+    direction,
+    token: tokenConfig.name,
+    decimals,
+    ...amountFields('amount', baseUnits, decimals),
+    ...amountFields('fee', fee, decimals),
+    feeRate,
+    ...amountFields('rentFee', rentFee, decimals),
+    ...amountFields('amountAfterFee', amountAfterFee, decimals),
+    ...amountFields('totalCost', totalCost, decimals),
+    ...amountFields('minimumAmount', minimumAmount, decimals),
+    rentFees: await getRentFees(tokens),
+  };
+}
+
+function getRentFeeInTokens(relayerConfig: RelayerConfig, tokenConfig: TokenConfig): number | undefined {
+  return isSol(tokenConfig)
+    ? relayerConfig.withdraw_rent_fee
+    : relayerConfig.rent_fees?.[tokenConfig.name.toLowerCase()];
+}
+
+/**
+ * Rate of the bracket baseUnits falls in (the flat rate without brackets)
+ */
+function getBracketRate(policy: DepositFeePolicy, baseUnits: BN): number {
+  if (policy.brackets.length === 0) {
+    return policy.rate;
+  }
+  const bracket = policy.brackets.find(({ upTo }) => !upTo || baseUnits.lt(upTo));
+  return bracket!.rate;
+}
+
+function isSol(tokenConfig: TokenConfig): boolean {
+  return tokenConfig.name.toLowerCase() === 'sol';
+}
@@ -0,0 +1,376 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { config, TokenConfig } from '../config/env.js';
+import { EncryptionService } from './encryption.js';
+import { scanUtxos, ScannedUtxo } from './utxo.js';
+import { decodeTransactInstruction, DecodedTransact } from './transaction.js';
+import { logger } from '../middleware/logging.js';
+import { amountFields } from '../utils/amounts.js';
+
+/**
+ * deposit        - funds entered the pool (fresh deposits and top-ups)
+ * withdrawal     - funds left the pool to a public address
+ * transfer_in    - note received via the user's shielded address
+ * transfer_out   - note sent to another shielded address
+ * consolidation  - notes merged without value leaving the user
+ * spend          - notes spent by a transaction that could not be fetched
+ */
+export type HistoryEntryType =
+  | 'deposit'
+  | 'withdrawal'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'consolidation'
+  | 'spend';
+
+export interface HistoryNote {
+  index: number;
+  amount: string;
+  uiAmount: string;
+  commitment: string;
+}
+
+export interface HistoryEntry {
+  type: HistoryEntryType;
+  token: string;
+  mint: string;
+  // Moved by the entry (merged value for consolidations)
+  amount: string;
+  uiAmount: string;
+  // Relayer fee, null when it cannot be recovered from chain
+  fee: string | null;
+  uiFee: string | null;
+  // Value of the user's notes created by the transaction
+  change: string;
+  uiChange: string;
+  signature: string | null;
+  timestamp: number | null;
+  spent: HistoryNote[];
+  created: HistoryNote[];
+}
+
+interface OwnedNote {
+  scanned: ScannedUtxo;
+  note: HistoryNote;
+  amount: BN;
+  received: boolean;
+}
+
+interface SpendInfo {
+  signature: string;
+  blockTime: number | null;
+}
+
+// Nullifier PDAs also appear read-only in later transactions (cross-check accounts),
+// so look a little past the most recent signature to reach the creating one
+const SPEND_SIGNATURE_LOOKBACK = 20;
+
+// Spends resolved from RPC never change once finalized, so they are kept and a
+// history request only looks up spends it has not seen (oldest dropped past the cap)
+const SPEND_CACHE_SIZE = 50_000;
+const spendsByPda = new Map<string, SpendInfo>();
+const transactsBySignature = new Map<string, DecodedTransact>();
+
+/**
+ * Rebuild a user's shielded history for the given tokens
+ *
+ * Every decryptable note is scanned, spent notes are paired with the
+ * transaction that created their nullifier PDA, and that transaction's
+ * instruction data tells which of the user's notes it produced and how much
+ * value entered or left the pool. Notes not produced by one of the user's own
+ * spends are fresh deposits, or transfers in when encrypted to the shielded
+ * address.
+ */
+export async function getTransactionHistory(params: {
+  connection: Connection;
+  publicKey: PublicKey;
+  encryptionService: EncryptionService;
+  tokens: TokenConfig[];
+}): Promise<HistoryEntry[]> {
+  const { connection, publicKey, encryptionService, tokens } = params;
+
+  const entries: { entry: HistoryEntry; position: number; tokenOrder: number }[] = [];
+
+  for (let tokenOrder = 0; tokenOrder < tokens.length; tokenOrder++) {
+    const tokenConfig = tokens[tokenOrder];
+    const tokenName = tokenConfig.name.toLowerCase() === 'sol' ? undefined : tokenConfig.name.toLowerCase();
+
+    const scanned = await scanUtxos({
+      publicKey,
+      connection,
+      encryptionService,
+      tokenName,
+      includeZero: true,
+    });
+
+    const tokenEntries = await buildTokenEntries(connection, encryptionService, tokenConfig, scanned);
+    for (const { entry, position } of tokenEntries) {
+      entries.push({ entry, position, tokenOrder });
+    }
+  }
+
+  // Fresh deposits carry no timestamp, so they inherit the time of the entry
+  // before them in the same tree to keep their place when tokens are merged
+  const sortTimes = new Map<HistoryEntry, number>();
+  for (let tokenOrder = 0; tokenOrder < tokens.length; tokenOrder++) {
+    let lastTime = 0;
+    entries
+      .filter(e => e.tokenOrder === tokenOrder)
+      .sort((a, b) => a.position - b.position)
+      .forEach(e => {
+        lastTime = e.entry.timestamp ?? lastTime;
+        sortTimes.set(e.entry, lastTime);
+      });
+  }
+
+  return entries
+    .sort((a, b) =>
+      sortTimes.get(a.entry)! - sortTimes.get(b.entry)!
+      || a.tokenOrder - b.tokenOrder
+      || a.position - b.position)
+    .map(e => e.entry);
+}
+
+async function buildTokenEntries(
+  connection: Connection,
+  encryptionService: EncryptionService,
+  tokenConfig: TokenConfig,
+  scanned: ScannedUtxo[]
+): Promise<{ entry: HistoryEntry; position: number }[]> {
+  const { decimals } = tokenConfig;
+  const notes: OwnedNote[] = [];
+  for (const s of scanned) {
+    notes.push({
+      scanned: s,
+      note: {
+        index: s.utxo.index,
+        ...amountFields('amount', s.utxo.amount, decimals),
+        commitment: await s.utxo.getCommitment(),
+      },
+      amount: s.utxo.amount,
+      received: encryptionService.getEncryptionKeyVersion(s.encryptedOutput) === 'v3',
+    });
+  }
+
+  // Group spent notes by the transaction that spent them
+  const spends = new Map<string, { info: SpendInfo; inputs: OwnedNote[] }>();
+  for (const owned of notes) {
+    if (!owned.scanned.spentBy) {
+      continue;
+    }
+    const info = await findSpendSignature(connection, owned.scanned.spentBy);
+    if (!info) {
+      logger.warn('No spend signature found for nullifier', { pda: owned.scanned.spentBy.toBase58() });
+      continue;
+    }
+    const spend = spends.get(info.signature) ?? { info, inputs: [] };
+    spend.inputs.push(owned);
+    spends.set(info.signature, spend);
+  }
+
+  const byCommitment = new Map<string, OwnedNote>();
+  for (const owned of notes) {
+    byCommitment.set(owned.note.commitment, owned);
+  }
+
+  const base = {
+    token: tokenConfig.name,
+    mint: tokenConfig.mint.toBase58(),
+  };
+  const sum = (list: OwnedNote[]) => list.reduce((total, n) => total.add(n.amount), new BN(0));
+  const results: { entry: HistoryEntry; position: number }[] = [];
+  const produced = new Set<OwnedNote>();
+
+  for (const { info, inputs } of spends.values()) {
+    const decoded = await fetchTransactInstruction(connection, info.signature);
+    const spent = inputs.map(n => n.note).sort((a, b) => a.index - b.index);
+    const spentTotal = sum(inputs);
+
+    if (!decoded) {
+      results.push({
+        entry: {
+          ...base,
+          type: 'spend',
+          ...amountFields('amount', spentTotal, decimals),
+          fee: null,
+          uiFee: null,
+          ...amountFields('change', new BN(0), decimals),
+          signature: info.signature,
+          timestamp: info.blockTime,
+          spent,
+          created: [],
+        },
+        position: Math.max(...spent.map(n => n.index)) + 0.5,
+      });
+      continue;
+    }
+
+    const outputs = decoded.outputCommitments
+      .flatMap(c => commitmentCandidates(c))
+      .map(c => byCommitment.get(c))
+      .filter((n): n is OwnedNote => !!n);
+    outputs.forEach(n => produced.add(n));
+
+    const change = sum(outputs);
+    const { fee, extAmount } = decoded;
+    const sent = spentTotal.sub(change).sub(fee);
+
+    let type: HistoryEntryType;
+    let amount: BN;
+    if (extAmount.gtn(0)) {
+      type = 'deposit';
+      amount = extAmount;
+    } else if (extAmount.ltn(0)) {
+      type = 'withdrawal';
+      amount = extAmount.neg();
+    } else if (sent.gtn(0)) {
+      type = 'transfer_out';
+      amount = sent;
+    } else {
+      type = 'consolidation';
+      amount = change;
+    }
+
+    const created = outputs.map(n => n.note).sort((a, b) => a.index - b.index);
+    results.push({
+      entry: {
+        ...base,
+        type,
+        ...amountFields('amount', amount, decimals),
+        ...amountFields('fee', fee, decimals),
+        ...amountFields('change', change, decimals),
+        signature: info.signature,
+        timestamp: info.blockTime,
+        spent,
+        created,
+      },
+      position: created.length > 0 ? created[0].index : Math.max(...spent.map(n => n.index)) + 0.5,
+    });
+  }
+
+  // Remaining notes came from transactions that spent none of the user's notes.
+  // Each transaction appends its two outputs at an even tree index, so siblings
+  // share index / 2.
+  const fresh = new Map<number, OwnedNote[]>();
+  for (const owned of notes) {
+    if (produced.has(owned)) {
+      continue;
+    }
+    const key = Math.floor(owned.note.index / 2);
+    fresh.set(key, [...(fresh.get(key) ?? []), owned]);
+  }
+
+  for (const group of fresh.values()) {
+    const received = group.filter(n => n.received);
+    const isTransfer = received.length > 0;
+    const amount = sum(isTransfer ? received : group);
+
+    // Skip the zero-value padding notes of transactions we have no other trace of
+    if (amount.isZero()) {
+      continue;
+    }
+
+    const created = group.map(n => n.note).sort((a, b) => a.index - b.index);
+    results.push({
+      entry: {
+        ...base,
+        type: isTransfer ? 'transfer_in' : 'deposit',
+        ...amountFields('amount', amount, decimals),
+        fee: null,
+        uiFee: null,
+        ...amountFields('change', sum(group), decimals),
+        signature: null,
+        timestamp: null,
+        spent: [],
+        created,
+      },
+      position: created[0].index,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Find the transaction that created a nullifier PDA (its oldest successful one)
+ */
+async function findSpendSignature(connection: Connection, pda: PublicKey): Promise<SpendInfo | null> {
+  const cached = spendsByPda.get(pda.toBase58());
+  if (cached) {
+    return cached;
+  }
+
+  const signatures = await connection.getSignaturesForAddress(pda, { limit: SPEND_SIGNATURE_LOOKBACK });
+  const successful = signatures.filter(s => s.err === null);
+  const oldest = successful[successful.length - 1];
+
+  if (!oldest) {
+    return null;
+  }
+
+  const info = { signature: oldest.signature, blockTime: oldest.blockTime ?? null };
+  if (oldest.confirmationStatus === 'finalized') {
+    remember(spendsByPda, pda.toBase58(), info);
+  }
+  return info;
+}
+
+/**
+ * Fetch a transaction and decode its Privacy Cash transact instruction
+ */
+async function fetchTransactInstruction(connection: Connection, signature: string): Promise<DecodedTransact | null> {
+  const cached = transactsBySignature.get(signature);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const tx = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+
+    if (!tx) {
+      logger.warn('Spend transaction not available', { signature });
+      return null;
+    }
+
+    const message = tx.transaction.message;
+    const accountKeys = message.getAccountKeys({ accountKeysFromLookups: tx.meta?.loadedAddresses });
+
+    for (const ix of message.compiledInstructions) {
+      if (!accountKeys.get(ix.programIdIndex)?.equals(config.programId)) {
+        continue;
+      }
+      const decoded = decodeTransactInstruction(Buffer.from(ix.data));
+      if (decoded) {
+        // A signature always names the same transaction
+        remember(transactsBySignature, signature, decoded);
+        return decoded;
+      }
+    }
+
+    logger.warn('No transact instruction in spend transaction', { signature });
+    return null;
+  } catch (error: any) {
+    logger.warn('Failed to fetch spend transaction', { signature, error: error.message });
+    return null;
+  }
+}
+
+function remember<T>(cache: Map<string, T>, key: string, value: T): void {
+  cache.set(key, value);
+  if (cache.size > SPEND_CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+/**
+ * Commitments are written little-endian by this API and big-endian by the
+ * SDK, so accept either reading of the on-chain bytes
+ */
+function commitmentCandidates(bytes: Buffer): string[] {
+  const le = new BN(bytes, 'le').toString();
+  const be = new BN(bytes, 'be').toString();
+  return le === be ? [le] : [le, be];
+}
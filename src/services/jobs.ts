@@ -0,0 +1,164 @@
+import { randomUUID } from 'crypto';
+import { config } from '../config/env.js';
+import { logger } from '../middleware/logging.js';
+import { ApiError } from '../utils/errors.js';
+import { EncryptionService } from './encryption.js';
+
+export type JobStatus = 'queued' | 'proving' | 'done' | 'failed';
+export type JobKind = 'deposit' | 'withdraw' | 'transfer';
+
+interface Job {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  // Set when the job is done or failed; queued and running jobs never expire
+  expiresAt?: number;
+  result?: Record<string, any>;
+  error?: string;
+  errorCode?: string;
+  // Holds the request until the job starts
+  run?: (encryptionService: EncryptionService) => Promise<Record<string, any>>;
+  // The job's own copy of the client's derived keys, zeroed when it ends or expires
+  encryptionService?: EncryptionService;
+}
+
+/**
+ * In-memory queue for proof generation jobs
+ * Lets prepare calls return a jobId immediately instead of holding the HTTP
+ * connection open while the proof is generated. Jobs expire config.jobTtlMs
+ * after they finish and are swept so results are not held indefinitely
+ * (waiting jobs are bounded by maxPending). Each job runs with its own copy
+ * of the keys, so ending the session that queued it does not break it.
+ */
+export class JobQueue {
+  private jobs = new Map<string, Job>();
+  private pending: string[] = [];
+  private active = 0;
+
+  constructor(
+    private readonly concurrency: number,
+    private readonly ttlMs: number,
+    private readonly maxPending: number
+  ) {
+    const sweeper = setInterval(() => this.sweep(), Math.min(ttlMs, 60_000));
+    sweeper.unref();
+  }
+
+  /**
+   * Queue a job and return its id; run gets a copy of encryptionService
+   * Throws ApiError 429 when maxPending jobs are already waiting
+   */
+  submit(
+    kind: JobKind,
+    encryptionService: EncryptionService,
+    run: (encryptionService: EncryptionService) => Promise<Record<string, any>>
+  ): Job {
+    if (this.pending.length >= this.maxPending) {
+      throw new ApiError('Job queue is full, retry later', 429, 'JOB_QUEUE_FULL', { maxPending: this.maxPending });
+    }
+
+    const now = Date.now();
+    const job: Job = {
+      id: randomUUID(),
+      kind,
+      status: 'queued',
+      createdAt: now,
+      updatedAt: now,
+      run,
+      encryptionService: encryptionService.clone(),
+    };
+
+    this.jobs.set(job.id, job);
+    this.pending.push(job.id);
+    logger.debug('Job queued', { jobId: job.id, kind, queueLength: this.pending.length });
+
+    this.drain();
+    return job;
+  }
+
+  get(id: string): Job | undefined {
+    const job = this.jobs.get(id);
+    if (job && isExpired(job, Date.now())) {
+      this.release(job);
+      this.jobs.delete(id);
+      return undefined;
+    }
+    return job;
+  }
+
+  /**
+   * Drop expired (finished) jobs together with their result
+   */
+  sweep(): void {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [id, job] of this.jobs) {
+      if (isExpired(job, now)) {
+        this.release(job);
+        job.result = undefined;
+        this.jobs.delete(id);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      logger.debug('Expired jobs swept', { removed, remaining: this.jobs.size });
+    }
+  }
+
+  /**
+   * Drop a job's request and zero its keys
+   */
+  private release(job: Job): void {
+    job.run = undefined;
+    job.encryptionService?.destroy();
+    job.encryptionService = undefined;
+  }
+
+  private drain(): void {
+    while (this.active < this.concurrency && this.pending.length > 0) {
+      const job = this.jobs.get(this.pending.shift()!);
+      if (!job || !job.run) {
+        continue;
+      }
+      this.execute(job);
+    }
+  }
+
+  private async execute(job: Job): Promise<void> {
+    const run = job.run!;
+    const encryptionService = job.encryptionService!;
+    // Release the request as soon as the job starts
+    job.run = undefined;
+    job.status = 'proving';
+    job.updatedAt = Date.now();
+    this.active++;
+
+    try {
+      job.result = await run(encryptionService);
+      job.status = 'done';
+      logger.debug('Job completed', { jobId: job.id, kind: job.kind, duration: `${Date.now() - job.createdAt}ms` });
+    } catch (error: any) {
+      job.status = 'failed';
+      job.error = error.message || 'Unknown error';
+      job.errorCode = error instanceof ApiError ? error.code : undefined;
+      logger.error('Job failed', { jobId: job.id, kind: job.kind, error: error.message, stack: error.stack });
+    } finally {
+      this.release(job);
+      job.updatedAt = Date.now();
+      job.expiresAt = job.updatedAt + this.ttlMs;
+      this.active--;
+      this.drain();
+    }
+  }
+}
+
+function isExpired(job: Job, now: number): boolean {
+  return job.expiresAt !== undefined && job.expiresAt <= now;
+}
+
+// Singleton instance
+export const jobQueue = new JobQueue(config.jobConcurrency, config.jobTtlMs, config.jobQueueLimit);
@@ -2,17 +2,23 @@ import type * as hasher from '@lightprotocol/hasher.rs';
 import { MERKLE_TREE_DEPTH } from '../utils/constants.js';
 
 /**
- * Simple Merkle tree implementation for ZK proofs
+ * Incremental Poseidon Merkle tree (same layout as the on-chain tree)
+ * Leaves are commitments in insertion order; missing nodes hash as zero subtrees
  */
 export class MerkleTree {
   public levels: number;
   private lightWasm: hasher.LightWasm;
   private zeroValues: string[];
+  // layers[0] holds the leaves, layers[levels][0] the root
+  private layers: string[][];
+  private leafIndices = new Map<string, number>();
 
-  constructor(levels: number, lightWasm: hasher.LightWasm) {
+  constructor(levels: number, lightWasm: hasher.LightWasm, leaves: string[] = []) {
     this.levels = levels;
     this.lightWasm = lightWasm;
     this.zeroValues = this.computeZeroValues();
+    this.layers = Array.from({ length: levels + 1 }, () => []);
+    this.bulkInsert(leaves);
   }
 
   private computeZeroValues(): string[] {
@@ -33,8 +39,95 @@ export class MerkleTree {
   getZeroPath(): string[] {
     return new Array(this.levels).fill('0');
   }
+
+  get size(): number {
+    return this.layers[0].length;
+  }
+
+  root(): string {
+    return this.layers[this.levels][0] ?? this.zeroValues[this.levels];
+  }
+
+  insert(leaf: string): void {
+    this.bulkInsert([leaf]);
+  }
+
+  /**
+   * Append leaves, rehashing only the nodes above them
+   */
+  bulkInsert(leaves: string[]): void {
+    if (leaves.length === 0) {
+      return;
+    }
+    if (this.size + leaves.length > 2 ** this.levels) {
+      throw new Error('Merkle tree is full');
+    }
+
+    let start = this.size;
+    leaves.forEach((leaf, i) => this.leafIndices.set(leaf, start + i));
+    this.layers[0].push(...leaves);
+
+    for (let level = 1; level <= this.levels; level++) {
+      start >>= 1;
+      const below = this.layers[level - 1];
+      const end = (below.length - 1) >> 1;
+
+      for (let i = start; i <= end; i++) {
+        this.layers[level][i] = this.lightWasm.poseidonHashString([
+          below[2 * i],
+          below[2 * i + 1] ?? this.zeroValues[level - 1],
+        ]);
+      }
+    }
+  }
+
+  /**
+   * Tree index of a leaf, or -1 if it is not in the tree
+   */
+  indexOf(leaf: string): number {
+    return this.leafIndices.get(leaf) ?? -1;
+  }
+
+  /**
+   * Sibling path of the leaf at index, bottom up
+   */
+  path(index: number): { pathElements: string[]; pathIndices: number[] } {
+    if (index < 0 || index >= this.size) {
+      throw new Error(`Leaf index ${index} is out of range (tree has ${this.size} leaves)`);
+    }
+
+    const pathElements: string[] = [];
+    const pathIndices: number[] = [];
+    let position = index;
+
+    for (let level = 0; level < this.levels; level++) {
+      pathIndices.push(position & 1);
+      pathElements.push(this.layers[level][position ^ 1] ?? this.zeroValues[level]);
+      position >>= 1;
+    }
+
+    return { pathElements, pathIndices };
+  }
+}
+
+/**
+ * Root that a leaf and its sibling path hash to (bit i of index picks the side at level i)
+ */
+export function computeRootFromPath(
+  lightWasm: hasher.LightWasm,
+  leaf: string,
+  index: number,
+  pathElements: string[]
+): string {
+  let node = leaf;
+  pathElements.forEach((sibling, level) => {
+    node = Math.floor(index / 2 ** level) % 2 === 0
+      ? lightWasm.poseidonHashString([node, sibling])
+      : lightWasm.poseidonHashString([sibling, node]);
+  });
+  return node;
 }
 
-export function createMerkleTree(lightWasm: hasher.LightWasm): MerkleTree {
-  return new MerkleTree(MERKLE_TREE_DEPTH, lightWasm);
+export function createMerkleTree(lightWasm: hasher.LightWasm, leaves: string[] = []): MerkleTree {
+  return new MerkleTree(MERKLE_TREE_DEPTH, lightWasm, leaves);
 }
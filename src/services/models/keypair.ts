@@ -17,6 +17,18 @@ export class Keypair {
     this.pubkey = new BN(this.lightWasm.poseidonHashString([this.privkey.toString()]));
   }
 
+  /**
+   * Watch-only keypair for outputs owned by someone else (e.g. a private transfer recipient)
+   * Only the pubkey is known, so it can build commitments but cannot sign nullifiers
+   */
+  static fromPubkey(pubkey: string | BN, lightWasm: hasher.LightWasm): Keypair {
+    const keypair = Object.create(Keypair.prototype) as Keypair;
+    keypair.privkey = new BN(0);
+    keypair.pubkey = new BN(pubkey.toString());
+    keypair.lightWasm = lightWasm;
+    return keypair;
+  }
+
   sign(commitment: string, merklePath: string): string {
     return this.lightWasm.poseidonHashString([this.privkey.toString(), commitment, merklePath]);
   }
@@ -1,7 +1,9 @@
 import BN from 'bn.js';
+import { PublicKey } from '@solana/web3.js';
 import { Keypair } from './keypair.js';
 import type * as hasher from '@lightprotocol/hasher.rs';
 import { logger } from '../../middleware/logging.js';
+import { getMintAddressField } from '../../utils/constants.js';
 
 const FIELD_SIZE = new BN(
   '21888242871839275222246405745257275088548364400416034343698204186575808495617'
@@ -52,7 +54,7 @@ export class Utxo {
     if (this.commitment) return this.commitment;
 
     // Include mintAddress in commitment (matches SDK)
-    const mintAddressField = this.getMintAddressField();
+    const mintAddressField = getMintAddressField(new PublicKey(this.mintAddress));
 
     this.commitment = this.lightWasm.poseidonHashString([
       this.amount.toString(),
@@ -64,16 +66,6 @@ export class Utxo {
     return this.commitment;
   }
 
-  private getMintAddressField(): string {
-    // For SOL, use the string directly
-    if (this.mintAddress === '11111111111111111111111111111112') {
-      return this.mintAddress;
-    }
-    // For SPL tokens, would need to process it, but for now just return as-is
-    // This matches SDK behavior where getMintAddressField is called on PublicKey
-    return this.mintAddress;
-  }
-
   async getNullifier(): Promise<string> {
     if (this.nullifier) return this.nullifier;
 
@@ -0,0 +1,110 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { logger } from '../middleware/logging.js';
+import { ApiError } from '../utils/errors.js';
+
+/**
+ * Compute unit price (priority fee) for prepared transactions
+ * A level is resolved to a percentile of the fees recently paid to write the
+ * accounts the transaction locks; clients can also name an explicit price.
+ */
+
+export const PRIORITY_LEVELS = ['none', 'low', 'medium', 'high'] as const;
+export type PriorityLevel = typeof PRIORITY_LEVELS[number];
+
+export type PriorityFee = PriorityLevel | { microLamports: number };
+
+// Percentile of recent per-slot fees each level pays
+const LEVEL_PERCENTILES: Record<Exclude<PriorityLevel, 'none'>, number> = {
+  low: 25,
+  medium: 50,
+  high: 75,
+};
+
+// getRecentPrioritizationFees accepts at most this many accounts
+const MAX_FEE_ACCOUNTS = 128;
+
+export const LAMPORTS_PER_SIGNATURE = 5000;
+const MICRO_LAMPORTS_PER_LAMPORT = 1_000_000;
+
+/**
+ * Parse the priorityFee of a request body: a level name or
+ * { microLamports } (integer, as a number or a decimal string)
+ * Missing means 'none'
+ */
+export function readPriorityFee(value: unknown): PriorityFee {
+  if (value === undefined || value === null) {
+    return 'none';
+  }
+
+  if (typeof value === 'string' && (PRIORITY_LEVELS as readonly string[]).includes(value)) {
+    return value as PriorityLevel;
+  }
+
+  if (typeof value === 'object' && 'microLamports' in value) {
+    const raw = (value as { microLamports: unknown }).microLamports;
+    const microLamports = typeof raw === 'string' && /^\d+$/.test(raw) ? Number(raw) : raw;
+    if (typeof microLamports === 'number' && Number.isSafeInteger(microLamports) && microLamports >= 0) {
+      return { microLamports };
+    }
+  }
+
+  throw new ApiError(
+    `priorityFee must be one of ${PRIORITY_LEVELS.join(', ')} or { "microLamports": <integer> }`,
+    400,
+    'INVALID_PRIORITY_FEE'
+  );
+}
+
+/**
+ * Compute unit price in micro-lamports for a priority fee
+ * writableAccounts are the accounts the transaction write-locks
+ */
+export async function resolveComputeUnitPrice(
+  connection: Connection,
+  priorityFee: PriorityFee,
+  writableAccounts: PublicKey[]
+): Promise<number> {
+  if (priorityFee === 'none') {
+    return 0;
+  }
+  if (typeof priorityFee === 'object') {
+    return priorityFee.microLamports;
+  }
+
+  const recentFees = await connection.getRecentPrioritizationFees({
+    lockedWritableAccounts: writableAccounts.slice(0, MAX_FEE_ACCOUNTS),
+  });
+  const computeUnitPrice = percentile(
+    recentFees.map(fee => fee.prioritizationFee),
+    LEVEL_PERCENTILES[priorityFee]
+  );
+
+  logger.debug('Priority fee resolved', { priorityFee, computeUnitPrice, samples: recentFees.length });
+  return computeUnitPrice;
+}
+
+/**
+ * Total network fee in lamports: the base fee per signature plus the
+ * priority fee on the full compute unit limit (what the chain charges)
+ */
+export function estimateNetworkFee(signatures: number, computeUnitLimit: number, computeUnitPrice: number): BN {
+  const priorityFee = new BN(computeUnitLimit)
+    .mul(new BN(computeUnitPrice))
+    .add(new BN(MICRO_LAMPORTS_PER_LAMPORT - 1))
+    .div(new BN(MICRO_LAMPORTS_PER_LAMPORT));
+
+  return new BN(signatures * LAMPORTS_PER_SIGNATURE).add(priorityFee);
+}
+
+/**
+ * Nearest-rank percentile (0 for no samples)
+ */
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
@@ -1,33 +1,57 @@
-import { Connection, PublicKey, LAMPORTS_PER_SOL, SystemProgram } from '@solana/web3.js';
+import { Connection, PublicKey, SystemProgram, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
 import BN from 'bn.js';
 import { WasmFactory } from '@lightprotocol/hasher.rs';
+import type * as hasher from '@lightprotocol/hasher.rs';
 import { keccak256 } from '@ethersproject/keccak256';
-import { config, TokenConfig } from '../config/env.js';
+import { config, ConfirmationCommitment, RelayMode, TokenConfig } from '../config/env.js';
+import { tokenRegistry } from './token-registry.js';
 import { EncryptionService } from './encryption.js';
 import { Utxo } from './models/utxo.js';
 import { Keypair as UtxoKeypair } from './models/keypair.js';
 import { createMerkleTree } from './merkle.js';
+import { treeMirror } from './tree-mirror.js';
+import { getVerifiedTreeState } from './tree-account.js';
 import { generateProof, parseProofToBytesArray, parseToBytesArray } from './proof.js';
+import { getRelayerClient, SubmitWithdrawParams, TreeState } from './relayer.js';
+import { selfRelayWithdraw } from './self-relay.js';
+import { Confirmation, confirmSignature } from './confirmation.js';
+import type { PriorityFee } from './priority-fee.js';
 import {
-  queryTreeState,
-  fetchMerkleProof,
-  relayDeposit,
-  submitWithdraw,
-  getRelayerConfig,
-  checkUtxoExists,
-} from './relayer.js';
+  assertNoDepositTransferFee,
+  getMintProgram,
+  getTokenAccountAddress,
+  getTransferFee,
+  MintProgram,
+} from './token-program.js';
 import {
   buildUnsignedDepositTransaction,
+  buildUnsignedSplDepositFeeTransaction,
   buildUnsignedSplDepositTransaction,
   serializeTransaction,
+  deserializeTransaction,
+  getLookupTable,
   findNullifierPDAs,
   findCrossCheckNullifierPDAs,
   serializeProofAndExtData,
+  SimulationReport,
 } from './transaction.js';
 import { getUtxos, getBalanceFromUtxos } from './utxo.js';
-import { FIELD_SIZE, FEE_RECIPIENT, getProgramAccounts, getSplTreeAccount } from '../utils/constants.js';
+import { nextWithdrawStep, planWithdrawal, TransferPlanStep, WithdrawPlanStep } from './withdraw-plan.js';
+import { getTransactionHistory, HistoryEntry } from './history.js';
+import { getDepositFees, getWithdrawFees } from './fees.js';
+import { assertDepositFeeTransaction, getDepositFeeTransfer } from './deposit-fee.js';
+import { describeFeePolicy } from './fee-policy.js';
+import { amountFields, formatUiAmount } from '../utils/amounts.js';
+import { encodeShieldedAddress, decodeShieldedAddress, getShieldedAddress } from './shielded-address.js';
+import {
+  FIELD_SIZE,
+  getProgramAccounts,
+  getSplTreeAccount,
+  getMintAddressField,
+} from '../utils/constants.js';
 import { logger } from '../middleware/logging.js';
-import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { ApiError } from '../utils/errors.js';
 
 /**
  * Main service for Privacy Cash operations
@@ -37,8 +61,9 @@ import { getAssociatedTokenAddressSync } from '@solana/spl-token';
 export class PrivacyCashService {
   private connection: Connection;
 
-  constructor() {
-    this.connection = new Connection(config.rpcUrl, 'confirmed');
+  // connection defaults to config.rpcUrl (pass a stub to run offline)
+  constructor(connection?: Connection) {
+    this.connection = connection ?? new Connection(config.rpcUrl, 'confirmed');
   }
 
   /**
@@ -47,32 +72,24 @@ export class PrivacyCashService {
    */
   async prepareDeposit(params: {
     publicKey: string;
-    signature: string; // Client's signature for encryption key derivation
-    lamports: number;
+    encryptionService: EncryptionService; // Keys derived from the client's sign-in signature
+    lamports: BN;
     referrer?: string;
+    priorityFee?: PriorityFee;
   }): Promise<{
     unsignedTransaction: string;
-    metadata: {
-      amount: number;
-      fee: number;
-      feeRate: number;
-      amountAfterFee: number;
-      encryptedOutput1: string;
-      encryptedOutput2: string;
-    };
+    metadata: Record<string, unknown>;
+    simulation: SimulationReport;
   }> {
-    const { publicKey, signature, lamports, referrer } = params;
+    const { publicKey, encryptionService, lamports, priorityFee } = params;
     const signer = new PublicKey(publicKey);
 
-    // Derive encryption key from signature
-    const encryptionService = new EncryptionService();
-    encryptionService.deriveEncryptionKeyFromSignature(Buffer.from(signature, 'base64'));
-
     const lightWasm = await WasmFactory.getInstance();
     const tree = createMerkleTree(lightWasm);
 
     // Get tree state
-    const { root, nextIndex } = await queryTreeState();
+    const treeState = await getVerifiedTreeState(this.connection);
+    const { root, nextIndex } = treeState;
 
     // Get existing UTXOs
     const existingUtxos = await getUtxos({
@@ -85,21 +102,13 @@ export class PrivacyCashService {
     const utxoPrivateKey = encryptionService.getUtxoPrivateKeyV2();
     const utxoKeypair = new UtxoKeypair(utxoPrivateKey, lightWasm);
 
-    // Calculate 1% deposit fee (minimum 0.001 SOL or 1,000,000 lamports)
-    const DEPOSIT_FEE_RATE = 0.01; // 1%
-    const MINIMUM_DEPOSIT_FEE = 1_000_000; // 0.001 SOL
-    const MINIMUM_DEPOSIT_AMOUNT = 20_000_000; // 0.02 SOL minimum deposit (required for transaction to work)
-    const calculatedFee = Math.floor(lamports * DEPOSIT_FEE_RATE);
-    const feeAmount = Math.max(calculatedFee, MINIMUM_DEPOSIT_FEE);
-    
+    // Operator deposit fee under SOL's fee policy
+    const solConfig = tokenRegistry.getToken('sol')!;
+    const { fee: feeAmount, feeRate, amountShielded, totalCost, minimumAmount, policy } = getDepositFees(lamports, solConfig);
+
     // Check minimum deposit requirement
-    if (lamports < MINIMUM_DEPOSIT_AMOUNT) {
-      throw new Error(`Deposit amount too low. Minimum required: ${MINIMUM_DEPOSIT_AMOUNT / LAMPORTS_PER_SOL} SOL`);
-    }
-    
-    // Ensure deposit amount is sufficient after fee
-    if (lamports < feeAmount) {
-      throw new Error(`Deposit amount too low. Minimum required: ${feeAmount / LAMPORTS_PER_SOL} SOL (includes ${feeAmount / LAMPORTS_PER_SOL} SOL fee)`);
+    if (lamports.lt(minimumAmount)) {
+      throw new Error(`Deposit amount too low. Minimum required: ${formatUiAmount(minimumAmount, solConfig.decimals)} SOL`);
     }
     
     let extAmount = lamports;
@@ -131,15 +140,14 @@ export class PrivacyCashService {
 
       inputs = [firstUtxo, secondUtxo];
 
-      const firstProof = await fetchMerkleProof(await firstUtxo.getCommitment());
-      inputMerklePathIndices = [firstUtxo.index, secondUtxo.amount.gt(new BN(0)) ? secondUtxo.index : 0];
-
-      if (secondUtxo.amount.gt(new BN(0))) {
-        const secondProof = await fetchMerkleProof(await secondUtxo.getCommitment());
-        inputMerklePathElements = [firstProof.pathElements, secondProof.pathElements];
-      } else {
-        inputMerklePathElements = [firstProof.pathElements, tree.getZeroPath()];
-      }
+      const hasSecond = secondUtxo.amount.gt(new BN(0));
+      const [firstProof, secondProof] = await treeMirror.getMerkleProofs(
+        hasSecond ? [firstUtxo, secondUtxo] : [firstUtxo],
+        treeState,
+        lightWasm
+      );
+      inputMerklePathIndices = [firstUtxo.index, hasSecond ? secondUtxo.index : 0];
+      inputMerklePathElements = [firstProof.pathElements, hasSecond ? secondProof.pathElements : tree.getZeroPath()];
     }
 
     // Create outputs - use short mint format for SOL
@@ -169,9 +177,8 @@ export class PrivacyCashService {
     const encryptedOutput1 = encryptionService.encryptUtxo(outputs[0]);
     const encryptedOutput2 = encryptionService.encryptUtxo(outputs[1]);
 
-    // Calculate public amount for circuit
+    // Calculate public amount for circuit (the operator fee is not part of it)
     const publicAmountForCircuit = new BN(extAmount)
-      .sub(new BN(feeAmount))
       .add(FIELD_SIZE)
       .mod(FIELD_SIZE);
 
@@ -181,8 +188,9 @@ export class PrivacyCashService {
       extAmount: new BN(extAmount),
       encryptedOutput1,
       encryptedOutput2,
-      fee: new BN(feeAmount),
-      feeRecipient: FEE_RECIPIENT,
+      // The operator fee is a separate transfer, so the pool charges none
+      fee: new BN(0),
+      feeRecipient: config.feeRecipient,
       mintAddress: inputs[0].mintAddress, // Already in short format
     };
 
@@ -227,26 +235,32 @@ export class PrivacyCashService {
       outputCommitments: [inputsInBytes[5], inputsInBytes[6]],
     };
 
-    // Build unsigned transaction with fee transfer
-    const { transaction } = await buildUnsignedDepositTransaction({
+    // Build unsigned transaction with fee transfer (simulated; fails prepare if the program would reject it)
+    const { transaction, simulation, networkFee } = await buildUnsignedDepositTransaction({
       connection: this.connection,
       signer,
       proof: proofToSubmit,
       extData,
       depositFee: feeAmount,
-      feeRecipient: new PublicKey(config.adminReferralWallet),
+      feeRecipient: policy.recipient,
+      priorityFee,
     });
 
     return {
       unsignedTransaction: serializeTransaction(transaction),
       metadata: {
-        amount: lamports,
-        fee: feeAmount,
-        feeRate: DEPOSIT_FEE_RATE,
-        amountAfterFee: lamports - feeAmount,
+        ...amountFields('amount', lamports, solConfig.decimals),
+        ...amountFields('fee', feeAmount, solConfig.decimals),
+        feeRate,
+        ...amountFields('amountShielded', amountShielded, solConfig.decimals),
+        ...amountFields('totalCost', totalCost, solConfig.decimals),
+        feePolicy: describeFeePolicy(policy, solConfig.decimals),
         encryptedOutput1: encryptedOutput1.toString('hex'),
         encryptedOutput2: encryptedOutput2.toString('hex'),
+        ...amountFields('networkFee', networkFee.fee, solConfig.decimals),
+        computeUnitPrice: networkFee.computeUnitPrice,
       },
+      simulation,
     };
   }
 
@@ -255,40 +269,38 @@ export class PrivacyCashService {
    */
   async prepareSplDeposit(params: {
     publicKey: string;
-    signature: string;
+    encryptionService: EncryptionService;
     mintAddress: string;
-    amount: number; // In token units (e.g., 1.5 USDC)
+    baseUnits: BN;
     referrer?: string;
+    priorityFee?: PriorityFee;
   }): Promise<{
     unsignedTransaction: string;
-    metadata: {
-      amount: number;
-      baseUnits: number;
-      encryptedOutput1: string;
-      encryptedOutput2: string;
-    };
+    unsignedFeeTransaction?: string; // Deposit fee transfer, signed and submitted with the deposit
+    metadata: Record<string, unknown>;
+    simulation: SimulationReport;
   }> {
-    const { publicKey, signature, mintAddress, amount, referrer } = params;
+    const { publicKey, encryptionService, mintAddress, baseUnits, priorityFee } = params;
     const signer = new PublicKey(publicKey);
     const mint = new PublicKey(mintAddress);
 
     // Get token config
-    const tokenConfig = config.getTokenByMint(mint);
-    if (!tokenConfig) {
-      throw new Error(`Unsupported token: ${mintAddress}`);
+    const tokenConfig = tokenRegistry.resolveToken(mintAddress);
+    const mintProgram = await getMintProgram(this.connection, mint);
+    assertNoDepositTransferFee(mint, mintProgram);
+
+    // Operator deposit fee under the token's fee policy, paid in the token
+    const { fee: depositFee, feeRate, amountShielded, totalCost, minimumAmount, policy } = getDepositFees(baseUnits, tokenConfig);
+    if (baseUnits.lt(minimumAmount)) {
+      throw new Error(`Deposit amount too low. Minimum required: ${formatUiAmount(minimumAmount, tokenConfig.decimals)} ${tokenConfig.name}`);
     }
 
-    const baseUnits = Math.floor(amount * tokenConfig.unitsPerToken);
-
-    // Derive encryption key
-    const encryptionService = new EncryptionService();
-    encryptionService.deriveEncryptionKeyFromSignature(Buffer.from(signature, 'base64'));
-
     const lightWasm = await WasmFactory.getInstance();
     const tree = createMerkleTree(lightWasm);
 
     // Get tree state for this token
-    const { root, nextIndex } = await queryTreeState(tokenConfig.name.toLowerCase());
+    const treeState = await getVerifiedTreeState(this.connection, tokenConfig.name.toLowerCase());
+    const { root, nextIndex } = treeState;
 
     // Get existing UTXOs for this token
     const existingUtxos = await getUtxos({
@@ -302,7 +314,6 @@ export class PrivacyCashService {
     const utxoPrivateKey = encryptionService.getUtxoPrivateKeyV2();
     const utxoKeypair = new UtxoKeypair(utxoPrivateKey, lightWasm);
 
-    const feeAmount = 0;
     let outputAmount: string;
     let inputs: Utxo[];
     let inputMerklePathIndices: number[];
@@ -327,21 +338,15 @@ export class PrivacyCashService {
 
       inputs = [firstUtxo, secondUtxo];
 
-      const firstProof = await fetchMerkleProof(
-        await firstUtxo.getCommitment(),
+      const hasSecond = secondUtxo.amount.gt(new BN(0));
+      const [firstProof, secondProof] = await treeMirror.getMerkleProofs(
+        hasSecond ? [firstUtxo, secondUtxo] : [firstUtxo],
+        treeState,
+        lightWasm,
         tokenConfig.name.toLowerCase()
       );
-      inputMerklePathIndices = [firstUtxo.index, secondUtxo.amount.gt(new BN(0)) ? secondUtxo.index : 0];
-
-      if (secondUtxo.amount.gt(new BN(0))) {
-        const secondProof = await fetchMerkleProof(
-          await secondUtxo.getCommitment(),
-          tokenConfig.name.toLowerCase()
-        );
-        inputMerklePathElements = [firstProof.pathElements, secondProof.pathElements];
-      } else {
-        inputMerklePathElements = [firstProof.pathElements, tree.getZeroPath()];
-      }
+      inputMerklePathIndices = [firstUtxo.index, hasSecond ? secondUtxo.index : 0];
+      inputMerklePathElements = [firstProof.pathElements, hasSecond ? secondProof.pathElements : tree.getZeroPath()];
     }
 
     const outputs = [
@@ -369,24 +374,25 @@ export class PrivacyCashService {
 
     const publicAmountForCircuit = new BN(baseUnits).add(FIELD_SIZE).mod(FIELD_SIZE);
 
-    const feeRecipientTokenAccount = getAssociatedTokenAddressSync(mint, FEE_RECIPIENT, true);
+    const feeRecipientTokenAccount = getTokenAccountAddress(mint, config.feeRecipient, mintProgram);
 
     const extData = {
-      recipient: getAssociatedTokenAddressSync(
+      recipient: getTokenAccountAddress(
         mint,
         new PublicKey('AWexibGxNFKTa1b5R5MN4PJr9HWnWRwf8EW9g8cLx3dM'),
-        true
+        mintProgram
       ),
       extAmount: new BN(baseUnits),
       encryptedOutput1,
       encryptedOutput2,
-      fee: new BN(feeAmount),
+      // The operator's fee is its own transaction (see submitDeposit)
+      fee: new BN(0),
       feeRecipient: feeRecipientTokenAccount,
       mintAddress: mint.toBase58(),
     };
 
     const extDataHash = this.getExtDataHash(extData);
-    const mintAddressField = this.getMintAddressField(mint);
+    const mintAddressField = getMintAddressField(mint);
 
     const proofInput = {
       root,
@@ -422,61 +428,119 @@ export class PrivacyCashService {
       outputCommitments: [inputsInBytes[5], inputsInBytes[6]],
     };
 
-    const { transaction } = await buildUnsignedSplDepositTransaction({
+    const { transaction, simulation, networkFee } = await buildUnsignedSplDepositTransaction({
       connection: this.connection,
       signer,
       mintAddress: mint,
+      mintProgram,
       proof: proofToSubmit,
       extData,
+      priorityFee,
     });
 
+    const feeTransfer = depositFee.gtn(0)
+      ? await buildUnsignedSplDepositFeeTransaction({
+        connection: this.connection,
+        signer,
+        mintAddress: mint,
+        mintProgram,
+        depositFee,
+        feeRecipient: policy.recipient,
+        priorityFee,
+      })
+      : null;
+
     return {
       unsignedTransaction: serializeTransaction(transaction),
+      ...(feeTransfer && { unsignedFeeTransaction: serializeTransaction(feeTransfer.transaction) }),
       metadata: {
-        amount,
-        baseUnits,
+        ...amountFields('amount', baseUnits, tokenConfig.decimals),
+        ...amountFields('fee', depositFee, tokenConfig.decimals),
+        feeRate,
+        ...amountFields('amountShielded', amountShielded, tokenConfig.decimals),
+        ...amountFields('totalCost', totalCost, tokenConfig.decimals),
+        feePolicy: describeFeePolicy(policy, tokenConfig.decimals),
         encryptedOutput1: encryptedOutput1.toString('hex'),
         encryptedOutput2: encryptedOutput2.toString('hex'),
+        // Paid by the signer in SOL, not in the deposited token (for both transactions)
+        ...amountFields('networkFee', networkFee.fee.add(feeTransfer?.networkFee.fee ?? new BN(0)), tokenRegistry.getToken('sol')!.decimals),
+        computeUnitPrice: networkFee.computeUnitPrice,
       },
+      simulation,
     };
   }
 
   /**
    * Submit a signed deposit transaction
+   * Waits for its signature to reach commitment (default CONFIRMATION_COMMITMENT)
+   * An SPL deposit that owes a fee needs the signed fee transaction from
+   * prepare. It is checked before the deposit is relayed and sent only once
+   * the relay succeeded; its outcome is reported as fee.
    */
   async submitDeposit(params: {
     signedTransaction: string;
+    signedFeeTransaction?: string;
     senderAddress: string;
-    encryptedOutput1: string;
     referrer?: string;
     mintAddress?: string;
-  }): Promise<{ signature: string; success: boolean }> {
-    const { signedTransaction, senderAddress, encryptedOutput1, referrer, mintAddress } = params;
+    commitment?: ConfirmationCommitment;
+  }): Promise<Confirmation & { fee?: Confirmation }> {
+    const { signedTransaction, signedFeeTransaction, senderAddress, referrer, mintAddress, commitment } = params;
+
+    const lookupTable = await getLookupTable(this.connection);
+    const feeTransfer = await getDepositFeeTransfer(
+      this.connection,
+      deserializeTransaction(signedTransaction),
+      lookupTable,
+      mintAddress
+    );
+
+    let feeTransaction: VersionedTransaction | undefined;
+    if (feeTransfer) {
+      if (!signedFeeTransaction) {
+        throw new ApiError('This deposit owes a fee: sign the prepared unsignedFeeTransaction and send it as signedFeeTransaction', 400, 'DEPOSIT_FEE_REQUIRED', {
+          fee: feeTransfer.amount.toString(),
+        });
+      }
+      feeTransaction = deserializeTransaction(signedFeeTransaction);
+      await assertDepositFeeTransaction(this.connection, feeTransaction, feeTransfer, lookupTable);
+    } else if (signedFeeTransaction) {
+      throw new ApiError('This deposit owes no fee transaction', 400, 'INVALID_FEE_TRANSACTION');
+    }
 
     // Relay to Privacy Cash relayer
-    const result = await relayDeposit({
+    const { signature } = await getRelayerClient().relayDeposit({
       signedTransaction,
       senderAddress,
       referrer,
       mintAddress,
     });
 
-    // Wait for confirmation
-    const tokenName = mintAddress ? config.getTokenByMint(mintAddress)?.name.toLowerCase() : undefined;
-    let confirmed = false;
-    let retries = 0;
+    const [confirmation, fee] = await Promise.all([
+      confirmSignature(this.connection, signature, commitment),
+      feeTransaction && this.sendDepositFee(feeTransaction, commitment),
+    ]);
 
-    while (!confirmed && retries < 10) {
-      await new Promise(r => setTimeout(r, 2000));
-      confirmed = await checkUtxoExists(encryptedOutput1, tokenName);
-      retries++;
-    }
+    return { ...confirmation, ...(fee && { fee }) };
+  }
 
-    if (!confirmed) {
-      logger.warn('Transaction may not be confirmed yet');
+  /**
+   * Send a checked deposit fee transaction and wait for it like the deposit
+   * A failure is reported, not thrown: the deposit has already been relayed
+   */
+  private async sendDepositFee(transaction: VersionedTransaction, commitment?: ConfirmationCommitment): Promise<Confirmation> {
+    try {
+      const signature = await this.connection.sendTransaction(transaction);
+      return await confirmSignature(this.connection, signature, commitment);
+    } catch (error: any) {
+      logger.error('Deposit fee transfer failed', { error: error.message, logs: error.logs });
+      return {
+        signature: bs58.encode(transaction.signatures[0]),
+        status: 'failed',
+        commitment: commitment ?? config.confirmationCommitment,
+        error: error.message,
+      };
     }
-
-    return result;
   }
 
   /**
@@ -484,31 +548,19 @@ export class PrivacyCashService {
    */
   async getBalance(params: {
     publicKey: string;
-    signature: string;
+    encryptionService: EncryptionService;
     mintAddress?: string;
   }): Promise<{
-    balance: number;
+    balance: string;
+    uiBalance: string;
     token: string;
     decimals: number;
   }> {
-    const { publicKey, signature, mintAddress } = params;
+    const { publicKey, encryptionService, mintAddress } = params;
     const pubkey = new PublicKey(publicKey);
 
-    const encryptionService = new EncryptionService();
-    encryptionService.deriveEncryptionKeyFromSignature(Buffer.from(signature, 'base64'));
-
-    let tokenConfig: TokenConfig | undefined;
-    let tokenName: string | undefined;
-
-    if (mintAddress) {
-      tokenConfig = config.getTokenByMint(mintAddress);
-      if (!tokenConfig) {
-        throw new Error(`Unsupported token: ${mintAddress}`);
-      }
-      tokenName = tokenConfig.name.toLowerCase();
-    } else {
-      tokenConfig = config.getToken('sol')!;
-    }
+    const tokenConfig = tokenRegistry.resolveToken(mintAddress);
+    const tokenName = mintAddress ? tokenConfig.name.toLowerCase() : undefined;
 
     const utxos = await getUtxos({
       publicKey: pubkey,
@@ -517,144 +569,587 @@ export class PrivacyCashService {
       tokenName,
     });
 
-    const { lamports } = getBalanceFromUtxos(utxos);
-    const balance = lamports / tokenConfig.unitsPerToken;
+    const { baseUnits } = getBalanceFromUtxos(utxos);
 
     return {
-      balance,
+      ...amountFields('balance', baseUnits, tokenConfig.decimals),
       token: tokenConfig.name,
       decimals: tokenConfig.decimals,
     };
   }
 
+  /**
+   * Get a user's shielded transaction history, oldest first
+   * Covers every supported token unless mintAddress is given
+   */
+  async getHistory(params: {
+    publicKey: string;
+    encryptionService: EncryptionService;
+    mintAddress?: string;
+    offset: number;
+    limit: number;
+  }): Promise<{
+    entries: HistoryEntry[];
+    total: number;
+  }> {
+    const { publicKey, encryptionService, mintAddress, offset, limit } = params;
+
+    const tokens = mintAddress ? [tokenRegistry.resolveToken(mintAddress)] : tokenRegistry.getAllTokens();
+
+    const entries = await getTransactionHistory({
+      connection: this.connection,
+      publicKey: new PublicKey(publicKey),
+      encryptionService,
+      tokens,
+    });
+
+    return {
+      entries: entries.slice(offset, offset + limit),
+      total: entries.length,
+    };
+  }
+
   /**
    * Prepare a withdrawal (SOL)
+   * When the amount needs more than two notes, this prepares the next
+   * consolidation step instead - submit it and call prepare again
    */
   async prepareWithdraw(params: {
     publicKey: string;
-    signature: string;
-    lamports: number;
+    encryptionService: EncryptionService;
+    lamports: BN;
     recipientAddress: string;
     referrer?: string;
   }): Promise<{
     withdrawParams: Record<string, any>;
-    metadata: {
-      amount: number;
-      fee: number;
-      recipient: string;
+    metadata: Record<string, string>;
+    plan: { steps: WithdrawPlanStep[]; totalFee: string; uiTotalFee: string };
+  }> {
+    const { publicKey, encryptionService, lamports, recipientAddress, referrer } = params;
+
+    const tokenConfig = tokenRegistry.getToken('sol')!;
+    const result = await this.prepareWithdrawStep({
+      publicKey,
+      encryptionService,
+      tokenConfig,
+      baseUnits: lamports,
+      recipient: new PublicKey(recipientAddress),
+      referrer,
+    });
+
+    return {
+      withdrawParams: result.withdrawParams,
+      metadata: {
+        ...amountFields('amount', result.amountAfterFee, tokenConfig.decimals),
+        ...amountFields('fee', result.withdrawFee, tokenConfig.decimals),
+        recipient: recipientAddress,
+        step: result.step.kind,
+      },
+      plan: {
+        steps: result.plan.steps,
+        ...amountFields('totalFee', result.plan.totalFee, tokenConfig.decimals),
+      },
     };
+  }
+
+  /**
+   * Prepare a SPL token withdrawal
+   * Multi-note withdrawals are prepared one step at a time, as for SOL
+   */
+  async prepareSplWithdraw(params: {
+    publicKey: string;
+    encryptionService: EncryptionService;
+    mintAddress: string;
+    baseUnits: BN;
+    recipientAddress: string;
+    referrer?: string;
+  }): Promise<{
+    withdrawParams: Record<string, any>;
+    metadata: Record<string, string>;
+    plan: { steps: WithdrawPlanStep[]; totalFee: string; uiTotalFee: string };
   }> {
-    const { publicKey, signature, lamports, recipientAddress, referrer } = params;
-    const signer = new PublicKey(publicKey);
-    const recipient = new PublicKey(recipientAddress);
+    const { publicKey, encryptionService, mintAddress, baseUnits, recipientAddress, referrer } = params;
+    const mint = new PublicKey(mintAddress);
 
-    const encryptionService = new EncryptionService();
-    encryptionService.deriveEncryptionKeyFromSignature(Buffer.from(signature, 'base64'));
+    const tokenConfig = tokenRegistry.resolveToken(mintAddress);
+    const program = await getMintProgram(this.connection, mint);
+
+    const result = await this.prepareWithdrawStep({
+      publicKey,
+      encryptionService,
+      tokenConfig,
+      spl: { mint, tokenName: tokenConfig.name.toLowerCase(), program },
+      baseUnits,
+      recipient: new PublicKey(recipientAddress),
+      referrer,
+    });
+
+    // Token-2022 transfer fee, withheld from what reaches the recipient (consolidation moves no tokens)
+    const transferFee = result.step.kind === 'withdraw' ? getTransferFee(program, result.amountAfterFee) : new BN(0);
+
+    return {
+      withdrawParams: result.withdrawParams,
+      metadata: {
+        ...amountFields('amount', result.amountAfterFee, tokenConfig.decimals),
+        ...amountFields('fee', result.withdrawFee, tokenConfig.decimals),
+        ...amountFields('transferFee', transferFee, tokenConfig.decimals),
+        ...amountFields('amountReceived', result.amountAfterFee.sub(transferFee), tokenConfig.decimals),
+        recipient: recipientAddress,
+        step: result.step.kind,
+      },
+      plan: {
+        steps: result.plan.steps,
+        ...amountFields('totalFee', result.plan.totalFee, tokenConfig.decimals),
+      },
+    };
+  }
+
+  /**
+   * Plan a withdrawal without generating any proofs
+   * Lists the consolidation steps (if any) and the final withdrawal with their fees
+   */
+  async planWithdraw(params: {
+    publicKey: string;
+    encryptionService: EncryptionService;
+    baseUnits: BN;
+    mintAddress?: string;
+  }): Promise<Record<string, unknown>> {
+    const { publicKey, encryptionService, baseUnits, mintAddress } = params;
+
+    const tokenConfig = tokenRegistry.resolveToken(mintAddress);
+    const tokenName = mintAddress ? tokenConfig.name.toLowerCase() : undefined;
+
+    const { withdrawFee, rentFee } = await getWithdrawFees(baseUnits, tokenConfig);
+
+    const existingUtxos = await getUtxos({
+      publicKey: new PublicKey(publicKey),
+      connection: this.connection,
+      encryptionService,
+      tokenName,
+    });
+
+    const plan = planWithdrawal({
+      utxos: existingUtxos,
+      amount: baseUnits,
+      consolidationFee: rentFee,
+      withdrawFee,
+    });
 
+    return {
+      steps: plan.steps,
+      ...amountFields('totalFee', withdrawFee.add(plan.consolidationFees), tokenConfig.decimals),
+      ...amountFields('amountAfterFee', baseUnits.sub(withdrawFee), tokenConfig.decimals),
+      token: tokenConfig.name,
+    };
+  }
+
+  /**
+   * Get the shielded address other users can send private transfers to
+   */
+  async getShieldedAddress(params: {
+    publicKey: string;
+    encryptionService: EncryptionService;
+  }): Promise<{ shieldedAddress: string }> {
     const lightWasm = await WasmFactory.getInstance();
-    const tree = createMerkleTree(lightWasm);
 
-    // Get fee config
-    const relayerConfig = await getRelayerConfig();
-    const feeInLamports = Math.floor(
-      lamports * relayerConfig.withdraw_fee_rate + LAMPORTS_PER_SOL * relayerConfig.withdraw_rent_fee
-    );
-    const amountAfterFee = lamports - feeInLamports;
+    return {
+      shieldedAddress: encodeShieldedAddress(getShieldedAddress(params.encryptionService, lightWasm)),
+    };
+  }
 
-    if (amountAfterFee <= 0) {
-      throw new Error('Amount too low after fees');
-    }
+  /**
+   * Prepare a private transfer to another pool user (SOL or SPL)
+   * Funds never leave the pool: extAmount is 0 and the recipient's note is
+   * encrypted to their shielded address so their UTXO scan picks it up.
+   * Like withdrawals, an amount that needs more than two notes prepares the
+   * next consolidation step instead - submit it and call prepare again
+   */
+  async prepareTransfer(params: {
+    publicKey: string;
+    encryptionService: EncryptionService;
+    baseUnits: BN;
+    recipientShieldedAddress: string;
+    mintAddress?: string;
+    referrer?: string;
+  }): Promise<{
+    withdrawParams: Record<string, any>;
+    metadata: Record<string, string>;
+    plan: { steps: TransferPlanStep[]; totalFee: string; uiTotalFee: string };
+  }> {
+    const { publicKey, encryptionService, baseUnits, recipientShieldedAddress, mintAddress, referrer } = params;
+    const signer = new PublicKey(publicKey);
+    const recipientAddress = decodeShieldedAddress(recipientShieldedAddress);
 
-    // Get tree state
-    const { root, nextIndex } = await queryTreeState();
+    const tokenConfig = tokenRegistry.resolveToken(mintAddress);
+    const mint = mintAddress ? new PublicKey(mintAddress) : undefined;
+    const spl = mint
+      ? { mint, tokenName: tokenConfig.name.toLowerCase(), program: await getMintProgram(this.connection, mint) }
+      : undefined;
+
+    const lightWasm = await WasmFactory.getInstance();
+
+    // Nothing leaves the pool, so the relayer only charges its rent fee
+    const { rentFee: fee } = await getWithdrawFees(new BN(0), tokenConfig);
+
+    const treeState = await getVerifiedTreeState(this.connection, spl?.tokenName);
+    const { nextIndex } = treeState;
 
-    // Get existing UTXOs
     const existingUtxos = await getUtxos({
       publicKey: signer,
       connection: this.connection,
       encryptionService,
+      tokenName: spl?.tokenName,
     });
 
     if (existingUtxos.length === 0) {
       throw new Error('No balance available');
     }
 
-    // Sort by amount descending
-    existingUtxos.sort((a, b) => b.amount.cmp(a.amount));
+    // Every step, consolidation or transfer, pays the same rent fee
+    const totalRequired = baseUnits.add(fee);
+    const plan = planWithdrawal({
+      utxos: existingUtxos,
+      amount: totalRequired,
+      consolidationFee: fee,
+      withdrawFee: fee,
+    });
+    const next = nextWithdrawStep(plan.notes);
+    const noteMint = spl ? spl.mint.toBase58() : undefined;
+    const utxoKeypairV2 = new UtxoKeypair(encryptionService.getUtxoPrivateKeyV2(), lightWasm);
 
-    const utxoPrivateKey = encryptionService.deriveUtxoPrivateKey();
-    const utxoKeypair = new UtxoKeypair(utxoPrivateKey, lightWasm);
-    const utxoPrivateKeyV2 = encryptionService.getUtxoPrivateKeyV2();
-    const utxoKeypairV2 = new UtxoKeypair(utxoPrivateKeyV2, lightWasm);
+    let inputs: Utxo[];
+    let outputs: Utxo[];
+    let encryptedOutputs: [Buffer, Buffer];
+
+    if (next.kind === 'consolidate') {
+      // Merge the two smallest notes into one of our own
+      inputs = next.inputs;
+      outputs = [
+        new Utxo({
+          lightWasm,
+          amount: inputs[0].amount.add(inputs[1].amount).sub(fee),
+          keypair: utxoKeypairV2,
+          index: nextIndex,
+          mintAddress: noteMint,
+        }),
+        new Utxo({ lightWasm, amount: '0', keypair: utxoKeypairV2, index: nextIndex + 1, mintAddress: noteMint }),
+      ];
+      encryptedOutputs = [encryptionService.encryptUtxo(outputs[0]), encryptionService.encryptUtxo(outputs[1])];
+      logger.info('Generating ZK proof for consolidation', { token: tokenConfig.name, remainingSteps: plan.steps.length });
+    } else {
+      inputs = this.selectInputs(next.inputs, encryptionService, lightWasm, noteMint);
+      const changeAmount = inputs[0].amount.add(inputs[1].amount).sub(totalRequired);
+
+      // Output 1 is owned by the recipient, output 2 is our change
+      outputs = [
+        new Utxo({
+          lightWasm,
+          amount: baseUnits,
+          keypair: UtxoKeypair.fromPubkey(recipientAddress.utxoPubkey, lightWasm),
+          index: nextIndex,
+          mintAddress: noteMint,
+        }),
+        new Utxo({
+          lightWasm,
+          amount: changeAmount,
+          keypair: utxoKeypairV2,
+          index: nextIndex + 1,
+          mintAddress: noteMint,
+        }),
+      ];
+      encryptedOutputs = [
+        EncryptionService.encryptUtxoForPublicKey(outputs[0], recipientAddress.encryptionPublicKey),
+        encryptionService.encryptUtxo(outputs[1]),
+      ];
+      logger.info('Generating ZK proof for private transfer');
+    }
 
-    const firstInput = existingUtxos[0];
-    const secondInput = existingUtxos.length > 1
-      ? existingUtxos[1]
-      : new Utxo({ lightWasm, keypair: utxoKeypair, amount: '0' });
+    const withdrawParams = await this.proveRelayedTransaction({
+      lightWasm,
+      treeState,
+      spl,
+      inputs,
+      outputs,
+      encryptedOutputs,
+      extAmount: new BN(0),
+      fee,
+      // Placeholder recipient (no public funds move in a transfer)
+      recipient: new PublicKey('AWexibGxNFKTa1b5R5MN4PJr9HWnWRwf8EW9g8cLx3dM'),
+      senderAddress: publicKey,
+      referrer,
+    });
 
-    const inputs = [firstInput, secondInput];
-    const totalInputAmount = firstInput.amount.add(secondInput.amount);
+    // The plan's final step is the transfer itself
+    const steps: TransferPlanStep[] = plan.steps.map(step => ({
+      ...step,
+      kind: step.kind === 'withdraw' ? 'transfer' : step.kind,
+    }));
 
-    if (totalInputAmount.lt(new BN(lamports))) {
-      throw new Error('Insufficient balance');
-    }
+    return {
+      withdrawParams,
+      metadata: {
+        ...amountFields('amount', baseUnits, tokenConfig.decimals),
+        ...amountFields('fee', fee, tokenConfig.decimals),
+        step: steps[0].kind,
+      },
+      plan: {
+        steps,
+        ...amountFields('totalFee', fee.add(plan.consolidationFees), tokenConfig.decimals),
+      },
+    };
+  }
 
-    const changeAmount = totalInputAmount.sub(new BN(amountAfterFee)).sub(new BN(feeInLamports));
+  /**
+   * Submit a withdrawal and wait for its signature to reach commitment
+   * relayMode picks the relayer or self-relay (default RELAY_MODE); asking for
+   * self-relay needs SELF_RELAY_ON_REQUEST. Relayer failures fall back to
+   * self-relay when SELF_RELAY_FALLBACK is on and the request is authenticated.
+   * publicKey is the authenticated caller (self-relays are rate-limited per key)
+   */
+  async submitWithdraw(params: {
+    withdrawParams: Record<string, any>;
+    relayMode?: RelayMode;
+    commitment?: ConfirmationCommitment;
+    publicKey?: string;
+  }): Promise<Confirmation & { relayedBy: RelayMode }> {
+    const { withdrawParams, commitment, publicKey } = params;
+    if (params.relayMode === 'self' && !config.selfRelayOnRequest) {
+      throw new ApiError('relayMode "self" is not enabled on this server', 403, 'SELF_RELAY_NOT_ALLOWED');
+    }
+    const relayMode = params.relayMode ?? config.relayMode;
 
-    // Get merkle proofs
-    const inputMerkleProofs = await Promise.all(
-      inputs.map(async (utxo) => {
-        if (utxo.amount.eq(new BN(0))) {
-          return { pathElements: tree.getZeroPath(), pathIndices: [] };
+    let signature: string;
+    let relayedBy: RelayMode = relayMode;
+    if (relayMode === 'self') {
+      if (!publicKey) {
+        throw new ApiError('Self-relayed submits must be authenticated', 401, 'AUTH_REQUIRED');
+      }
+      ({ signature } = await selfRelayWithdraw(this.connection, withdrawParams as SubmitWithdrawParams, publicKey));
+    } else {
+      try {
+        ({ signature } = await getRelayerClient().submitWithdraw(withdrawParams as SubmitWithdrawParams));
+      } catch (error: any) {
+        // Anonymous submits never spend the operator's SOL
+        if (!config.selfRelayFallback || !config.operatorKeypair || !publicKey) {
+          throw error;
         }
-        return fetchMerkleProof(await utxo.getCommitment());
-      })
-    );
+        logger.warn('Relayer withdrawal failed, self-relaying', { error: error.message });
+        ({ signature } = await selfRelayWithdraw(this.connection, withdrawParams as SubmitWithdrawParams, publicKey));
+        relayedBy = 'self';
+      }
+    }
 
-    const inputMerklePathElements = inputMerkleProofs.map(p => p.pathElements);
-    const inputMerklePathIndices = inputs.map(u => u.index || 0);
+    const confirmation = await confirmSignature(this.connection, signature, commitment);
+    return { ...confirmation, relayedBy };
+  }
 
+  /**
+   * Prepare the next step of a withdrawal plan
+   * Either the final withdrawal or a consolidation that merges the two smallest notes
+   */
+  private async prepareWithdrawStep(params: {
+    publicKey: string;
+    encryptionService: EncryptionService;
+    tokenConfig: TokenConfig;
+    spl?: { mint: PublicKey; tokenName: string; program: MintProgram }; // omitted for SOL
+    baseUnits: BN;
+    recipient: PublicKey;
+    referrer?: string;
+  }): Promise<{
+    withdrawParams: Record<string, any>;
+    step: WithdrawPlanStep;
+    withdrawFee: BN;
+    amountAfterFee: BN;
+    plan: { steps: WithdrawPlanStep[]; totalFee: BN };
+  }> {
+    const { publicKey, encryptionService, tokenConfig, spl, baseUnits, recipient, referrer } = params;
+    const lightWasm = await WasmFactory.getInstance();
+
+    const { withdrawFee, rentFee } = await getWithdrawFees(baseUnits, tokenConfig);
+    const amountAfterFee = baseUnits.sub(withdrawFee);
+
+    if (amountAfterFee.lten(0)) {
+      throw new Error('Amount too low after fees');
+    }
+
+    // Get tree state
+    const treeState = await getVerifiedTreeState(this.connection, spl?.tokenName);
+    const { nextIndex } = treeState;
+
+    // Get existing UTXOs
+    const existingUtxos = await getUtxos({
+      publicKey: new PublicKey(publicKey),
+      connection: this.connection,
+      encryptionService,
+      tokenName: spl?.tokenName,
+    });
+
+    if (existingUtxos.length === 0) {
+      throw new Error('No balance available');
+    }
+
+    const plan = planWithdrawal({
+      utxos: existingUtxos,
+      amount: baseUnits,
+      consolidationFee: rentFee,
+      withdrawFee,
+    });
+    const step = plan.steps[0];
+    // The same step function the plan was built with
+    const next = nextWithdrawStep(plan.notes);
+    const noteMint = spl?.mint.toBase58();
+
+    let inputs: Utxo[];
+    let outputAmount: BN;
+
+    if (next.kind === 'consolidate') {
+      // Merge the two smallest notes - the relayer's rent fee comes out of the merged note
+      inputs = next.inputs;
+      outputAmount = inputs[0].amount.add(inputs[1].amount).sub(rentFee);
+    } else {
+      inputs = this.selectInputs(next.inputs, encryptionService, lightWasm, noteMint);
+      outputAmount = inputs[0].amount.add(inputs[1].amount).sub(baseUnits);
+    }
+
+    const utxoKeypairV2 = new UtxoKeypair(encryptionService.getUtxoPrivateKeyV2(), lightWasm);
     const outputs = [
       new Utxo({
         lightWasm,
-        amount: changeAmount.toString(),
+        amount: outputAmount,
         keypair: utxoKeypairV2,
         index: nextIndex,
+        mintAddress: noteMint,
       }),
       new Utxo({
         lightWasm,
         amount: '0',
         keypair: utxoKeypairV2,
         index: nextIndex + 1,
+        mintAddress: noteMint,
       }),
     ];
 
-    const extAmount = -amountAfterFee;
-    const publicAmountForCircuit = new BN(extAmount)
-      .sub(new BN(feeInLamports))
+    if (step.kind === 'consolidate') {
+      logger.info('Generating ZK proof for consolidation', {
+        token: tokenConfig.name,
+        remainingSteps: plan.steps.length,
+      });
+    } else {
+      logger.info(spl ? 'Generating ZK proof for SPL withdrawal' : 'Generating ZK proof for withdrawal');
+    }
+
+    const withdrawParams = await this.proveRelayedTransaction({
+      lightWasm,
+      treeState,
+      spl,
+      inputs,
+      outputs,
+      encryptedOutputs: [encryptionService.encryptUtxo(outputs[0]), encryptionService.encryptUtxo(outputs[1])],
+      extAmount: step.kind === 'consolidate' ? new BN(0) : amountAfterFee.neg(),
+      fee: new BN(step.fee),
+      // Consolidations keep funds in the pool, so they use the placeholder recipient
+      recipient: step.kind === 'consolidate'
+        ? new PublicKey('AWexibGxNFKTa1b5R5MN4PJr9HWnWRwf8EW9g8cLx3dM')
+        : recipient,
+      senderAddress: publicKey,
+      referrer,
+    });
+
+    return {
+      withdrawParams,
+      step,
+      withdrawFee,
+      amountAfterFee,
+      plan: {
+        steps: plan.steps,
+        totalFee: withdrawFee.add(plan.consolidationFees),
+      },
+    };
+  }
+
+  /**
+   * Pick the two largest UTXOs as circuit inputs, padding with a zero UTXO
+   */
+  private selectInputs(
+    utxos: Utxo[],
+    encryptionService: EncryptionService,
+    lightWasm: hasher.LightWasm,
+    mintAddress?: string
+  ): Utxo[] {
+    // Sort by amount descending
+    const sorted = [...utxos].sort((a, b) => b.amount.cmp(a.amount));
+
+    const utxoKeypair = new UtxoKeypair(encryptionService.deriveUtxoPrivateKey(), lightWasm);
+    const secondInput = sorted.length > 1
+      ? sorted[1]
+      : new Utxo({ lightWasm, keypair: utxoKeypair, amount: '0', mintAddress });
+
+    return [sorted[0], secondInput];
+  }
+
+  /**
+   * Prove a transaction that is submitted through the relayer's withdraw endpoint
+   * (withdrawals and private transfers) and build the relayer withdraw params
+   */
+  private async proveRelayedTransaction(params: {
+    lightWasm: hasher.LightWasm;
+    treeState: TreeState;
+    spl?: { mint: PublicKey; tokenName: string; program: MintProgram }; // omitted for SOL
+    inputs: Utxo[];
+    outputs: Utxo[];
+    encryptedOutputs: [Buffer, Buffer];
+    extAmount: BN;
+    fee: BN;
+    recipient: PublicKey;
+    senderAddress: string;
+    referrer?: string;
+  }): Promise<Record<string, any>> {
+    const { lightWasm, treeState, spl, inputs, outputs, extAmount, fee, recipient, senderAddress, referrer } = params;
+    const [encryptedOutput1, encryptedOutput2] = params.encryptedOutputs;
+    const tree = createMerkleTree(lightWasm);
+
+    // Get merkle proofs (zero-amount inputs are dummies with a zero path)
+    const realInputs = inputs.filter(utxo => !utxo.amount.eq(new BN(0)));
+    const realProofs = await treeMirror.getMerkleProofs(realInputs, treeState, lightWasm, spl?.tokenName);
+
+    const inputMerklePathElements = inputs.map(utxo => {
+      const i = realInputs.indexOf(utxo);
+      return i === -1 ? tree.getZeroPath() : realProofs[i].pathElements;
+    });
+    const inputMerklePathIndices = inputs.map(u => u.index || 0);
+
+    const publicAmountForCircuit = extAmount
+      .sub(fee)
       .add(FIELD_SIZE)
       .mod(FIELD_SIZE);
 
     const inputNullifiers = await Promise.all(inputs.map(x => x.getNullifier()));
     const outputCommitments = await Promise.all(outputs.map(x => x.getCommitment()));
 
-    const encryptedOutput1 = encryptionService.encryptUtxo(outputs[0]);
-    const encryptedOutput2 = encryptionService.encryptUtxo(outputs[1]);
+    const { treeAccount, treeTokenAccount, globalConfigAccount } = getProgramAccounts();
+
+    // SPL funds leave the pool from the tree ATA (owned by global config)
+    const splAccounts = spl && {
+      treeAccount: getSplTreeAccount(spl.mint),
+      treeAta: getTokenAccountAddress(spl.mint, globalConfigAccount, spl.program),
+      recipientAta: getTokenAccountAddress(spl.mint, recipient, spl.program),
+      feeRecipientTokenAccount: getTokenAccountAddress(spl.mint, config.feeRecipient, spl.program),
+    };
 
     const extData = {
-      recipient,
-      extAmount: new BN(extAmount),
+      recipient: splAccounts ? splAccounts.recipientAta : recipient,
+      extAmount,
       encryptedOutput1,
       encryptedOutput2,
-      fee: new BN(feeInLamports),
-      feeRecipient: FEE_RECIPIENT,
+      fee,
+      feeRecipient: splAccounts ? splAccounts.feeRecipientTokenAccount : config.feeRecipient,
       mintAddress: inputs[0].mintAddress,
     };
 
     const extDataHash = this.getExtDataHash(extData);
 
     const proofInput = {
-      root,
+      root: treeState.root,
       inputNullifier: inputNullifiers,
       outputCommitment: outputCommitments,
       publicAmount: publicAmountForCircuit.toString(),
@@ -667,10 +1162,9 @@ export class PrivacyCashService {
       outAmount: outputs.map(x => x.amount.toString(10)),
       outBlinding: outputs.map(x => x.blinding.toString(10)),
       outPubkey: outputs.map(x => x.keypair.pubkey.toString()),
-      mintAddress: inputs[0].mintAddress,
+      mintAddress: getMintAddressField(new PublicKey(inputs[0].mintAddress)),
     };
 
-    logger.info('Generating ZK proof for withdrawal');
     const { proof, publicSignals } = await generateProof(proofInput);
 
     const proofInBytes = parseProofToBytesArray(proof);
@@ -690,63 +1184,36 @@ export class PrivacyCashService {
     const { nullifier0PDA, nullifier1PDA } = findNullifierPDAs(proofToSubmit);
     const { nullifier2PDA, nullifier3PDA } = findCrossCheckNullifierPDAs(proofToSubmit);
 
-    const serializedProof = serializeProofAndExtData(proofToSubmit, extData, false);
-
-    const { treeAccount, treeTokenAccount, globalConfigAccount } = getProgramAccounts();
+    const serializedProof = serializeProofAndExtData(proofToSubmit, extData, !!spl);
 
     return {
-      withdrawParams: {
-        serializedProof: serializedProof.toString('base64'),
-        treeAccount: treeAccount.toBase58(),
-        nullifier0PDA: nullifier0PDA.toBase58(),
-        nullifier1PDA: nullifier1PDA.toBase58(),
-        nullifier2PDA: nullifier2PDA.toBase58(),
-        nullifier3PDA: nullifier3PDA.toBase58(),
-        treeTokenAccount: treeTokenAccount.toBase58(),
-        globalConfigAccount: globalConfigAccount.toBase58(),
-        recipient: recipient.toBase58(),
-        feeRecipientAccount: FEE_RECIPIENT.toBase58(),
-        extAmount,
-        encryptedOutput1: encryptedOutput1.toString('base64'),
-        encryptedOutput2: encryptedOutput2.toString('base64'),
-        fee: feeInLamports,
-        lookupTableAddress: config.altAddress.toBase58(),
-        senderAddress: publicKey,
-        referralWalletAddress: referrer,
-      },
-      metadata: {
-        amount: amountAfterFee,
-        fee: feeInLamports,
-        recipient: recipientAddress,
-      },
+      serializedProof: serializedProof.toString('base64'),
+      treeAccount: (splAccounts ? splAccounts.treeAccount : treeAccount).toBase58(),
+      nullifier0PDA: nullifier0PDA.toBase58(),
+      nullifier1PDA: nullifier1PDA.toBase58(),
+      nullifier2PDA: nullifier2PDA.toBase58(),
+      nullifier3PDA: nullifier3PDA.toBase58(),
+      treeTokenAccount: treeTokenAccount.toBase58(),
+      globalConfigAccount: globalConfigAccount.toBase58(),
+      recipient: recipient.toBase58(),
+      feeRecipientAccount: config.feeRecipient.toBase58(),
+      // The relayer takes these as JSON numbers; readAmount keeps them below 2^53
+      extAmount: extAmount.toNumber(),
+      encryptedOutput1: encryptedOutput1.toString('base64'),
+      encryptedOutput2: encryptedOutput2.toString('base64'),
+      fee: fee.toNumber(),
+      lookupTableAddress: config.altAddress.toBase58(),
+      senderAddress,
+      referralWalletAddress: referrer,
+      ...(spl && splAccounts && {
+        treeAta: splAccounts.treeAta.toBase58(),
+        recipientAta: splAccounts.recipientAta.toBase58(),
+        mintAddress: spl.mint.toBase58(),
+        feeRecipientTokenAccount: splAccounts.feeRecipientTokenAccount.toBase58(),
+      }),
     };
   }
 
-  /**
-   * Submit a withdrawal
-   */
-  async submitWithdraw(params: {
-    withdrawParams: Record<string, any>;
-    encryptedOutput1: string;
-    tokenName?: string;
-  }): Promise<{ signature: string; success: boolean }> {
-    const { withdrawParams, encryptedOutput1, tokenName } = params;
-
-    const result = await submitWithdraw(withdrawParams as any);
-
-    // Wait for confirmation
-    let confirmed = false;
-    let retries = 0;
-
-    while (!confirmed && retries < 10) {
-      await new Promise(r => setTimeout(r, 2000));
-      confirmed = await checkUtxoExists(encryptedOutput1, tokenName);
-      retries++;
-    }
-
-    return result;
-  }
-
   /**
    * Calculate ext data hash (matches SDK implementation)
    */
@@ -777,22 +1244,6 @@ export class PrivacyCashService {
     const hashBN = new BN(hash.slice(2), 16);
     return hashBN.mod(FIELD_SIZE).toString();
   }
-
-  /**
-   * Get mint address field for circuit (matches SDK)
-   */
-  private getMintAddressField(mint: PublicKey): string {
-    const mintStr = mint.toString();
-
-    // Special case for SOL (system program)
-    if (mintStr === '11111111111111111111111111111112') {
-      return mintStr;
-    }
-
-    // For SPL tokens: use first 31 bytes (matches SDK)
-    const mintBytes = mint.toBytes();
-    return new BN(mintBytes.slice(0, 31), 'be').toString();
-  }
 }
 
 // Singleton instance
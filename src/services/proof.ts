@@ -1,33 +1,125 @@
+import { existsSync, readFileSync } from 'fs';
 import * as snarkjs from 'snarkjs';
-import { readFileSync } from 'fs';
+import { config } from '../config/env.js';
 import { logger } from '../middleware/logging.js';
 import { getCircuitBasePath } from '../utils/constants.js';
+import { ProofVerificationError, PublicInputMismatch } from '../utils/errors.js';
+import { ProverPool } from './prover-pool.js';
 
-interface ProofResult {
+export interface ProofResult {
   proof: any;
   publicSignals: string[];
 }
 
 /**
- * Generate a ZK proof for a transaction
- * This is the heavy computation that runs on the server
+ * Witness generator and proving key, backed by shared memory
  */
-export async function generateProof(input: Record<string, any>): Promise<ProofResult> {
-  const basePath = getCircuitBasePath();
+export interface CircuitArtifacts {
+  wasm: Uint8Array;
+  zkey: Uint8Array;
+}
+
+interface Prover {
+  pool: ProverPool;
+  verificationKey: any;
+}
+
+// Public signals in circuit order, named after the proof inputs they must equal
+const PUBLIC_INPUTS: [name: string, value: (input: Record<string, any>) => unknown][] = [
+  ['root', input => input.root],
+  ['publicAmount', input => input.publicAmount],
+  ['extDataHash', input => input.extDataHash],
+  ['inputNullifier[0]', input => input.inputNullifier?.[0]],
+  ['inputNullifier[1]', input => input.inputNullifier?.[1]],
+  ['outputCommitment[0]', input => input.outputCommitment?.[0]],
+  ['outputCommitment[1]', input => input.outputCommitment?.[1]],
+];
+
+let prover: Promise<Prover> | null = null;
+
+/**
+ * Read the circuit's witness generator and proving key into shared memory
+ * so the prover workers use one in-memory copy instead of re-reading the files
+ */
+export function loadCircuitArtifacts(basePath: string = getCircuitBasePath()): CircuitArtifacts {
   const wasmPath = `${basePath}.wasm`;
   const zkeyPath = `${basePath}.zkey`;
 
-  logger.debug('Generating ZK proof', { wasmPath, zkeyPath });
+  const missing = [wasmPath, zkeyPath].filter(file => !existsSync(file));
+  if (missing.length > 0) {
+    throw new Error(`Circuit artifacts not found: ${missing.join(', ')}`);
+  }
+
+  const toShared = (file: string) => {
+    const data = readFileSync(file);
+    const shared = new Uint8Array(new SharedArrayBuffer(data.length));
+    shared.set(data);
+    return shared;
+  };
+
+  const artifacts = { wasm: toShared(wasmPath), zkey: toShared(zkeyPath) };
+  logger.info('Circuit artifacts loaded', { wasmBytes: artifacts.wasm.length, zkeyBytes: artifacts.zkey.length });
+  return artifacts;
+}
+
+/**
+ * Load the circuit, start the prover workers and extract the verification key (once)
+ * Awaited at startup so missing or corrupt circuit files stop the server right away
+ */
+export function initProver(): Promise<void> {
+  if (!prover) {
+    prover = (async () => {
+      const artifacts = loadCircuitArtifacts();
+      const verificationKey = await snarkjs.zKey.exportVerificationKey(artifacts.zkey);
+
+      const pool = new ProverPool(artifacts, config.proverPoolSize, config.proverQueueLimit, config.proverTimeoutMs);
+      pool.startWorkers();
+      return { pool, verificationKey };
+    })();
+    // Let a later call retry instead of caching the failure
+    prover.catch(() => { prover = null; });
+  }
+  return prover.then(() => undefined);
+}
+
+/**
+ * Generate a ZK proof for a transaction
+ * This is the heavy computation that runs on the server, in the prover worker pool
+ * Throws ProverBusyError when the pool's queue is full, and
+ * ProofVerificationError when the proof does not verify
+ */
+export async function generateProof(input: Record<string, any>): Promise<ProofResult> {
+  await initProver();
+  const { pool, verificationKey } = await prover!;
+
+  logger.debug('Generating ZK proof', pool.stats);
 
   const startTime = Date.now();
-  const { proof, publicSignals } = await snarkjs.groth16.fullProve(input, wasmPath, zkeyPath);
+  const { proof, publicSignals } = await pool.prove(input);
   const duration = Date.now() - startTime;
 
   logger.debug('Proof generated', { duration: `${duration}ms` });
 
+  if (!(await snarkjs.groth16.verify(verificationKey, publicSignals, proof))) {
+    const mismatches = findPublicInputMismatches(input, publicSignals);
+    logger.error('Generated proof failed verification', { mismatches });
+    throw new ProofVerificationError(mismatches);
+  }
+
   return { proof, publicSignals };
 }
 
+/**
+ * Public signals that differ from the values the proof was built for
+ */
+function findPublicInputMismatches(input: Record<string, any>, publicSignals: string[]): PublicInputMismatch[] {
+  return PUBLIC_INPUTS.flatMap(([name, value], i) => {
+    const expected = String(value(input));
+    const actual = String(publicSignals[i]);
+    return expected === actual ? [] : [{ input: name, expected, actual }];
+  });
+}
+
 /**
  * Parse proof to bytes array format for on-chain submission
  */
@@ -0,0 +1,193 @@
+import { Worker } from 'worker_threads';
+import { extname } from 'path';
+import { fileURLToPath } from 'url';
+import { logger } from '../middleware/logging.js';
+import { ProverBusyError, ProofTimeoutError } from '../utils/errors.js';
+import type { CircuitArtifacts, ProofResult } from './proof.js';
+
+// Resolve the worker next to this module (.ts under tsx, .js once built)
+const MODULE_EXTENSION = extname(fileURLToPath(import.meta.url));
+const WORKER_URL = new URL(`./prover-worker${MODULE_EXTENSION}`, import.meta.url);
+
+// snarkjs pulls in the web-worker package, which assumes every worker thread was
+// spawned by itself and loads workerData.mod - give it an empty module
+const WORKER_DATA = { mod: 'data:text/javascript,', type: 'module' };
+
+function createWorker(artifacts: CircuitArtifacts): Worker {
+  // The artifacts live in shared memory, so every worker sees the same copy
+  const workerData = { ...WORKER_DATA, wasm: artifacts.wasm, zkey: artifacts.zkey };
+
+  if (MODULE_EXTENSION !== '.ts') {
+    return new Worker(WORKER_URL, { workerData });
+  }
+  // tsx registers its loader in-process only, so a TypeScript worker has to register it itself (dev mode)
+  return new Worker(
+    `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL.href)}); });`,
+    { eval: true, workerData }
+  );
+}
+
+interface ProofTask {
+  input: Record<string, any>;
+  resolve: (result: ProofResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface ProverSlot {
+  worker: Worker;
+  current?: {
+    id: number;
+    task: ProofTask;
+    timer: NodeJS.Timeout;
+    startedAt: number;
+  };
+}
+
+/**
+ * Pool of worker_threads running snarkjs proofs
+ * Proofs wait in a bounded queue; when it is full prove() throws
+ * ProverBusyError so routes can answer 429 with Retry-After. Each proof has a
+ * timeout after which its worker is terminated and replaced.
+ */
+export class ProverPool {
+  private slots: ProverSlot[] = [];
+  private queue: ProofTask[] = [];
+  private nextId = 0;
+  // Rolling estimate used for Retry-After
+  private averageDurationMs = 10_000;
+
+  constructor(
+    private readonly artifacts: CircuitArtifacts,
+    private readonly size: number,
+    private readonly queueLimit: number,
+    private readonly timeoutMs: number
+  ) {}
+
+  /**
+   * Start the workers so they compile the witness calculator before the first proof
+   */
+  startWorkers(): void {
+    while (this.slots.length < this.size) {
+      this.slots.push(this.spawn());
+    }
+  }
+
+  prove(input: Record<string, any>): Promise<ProofResult> {
+    // Respawn workers removed after crashing
+    this.startWorkers();
+
+    if (this.queue.length >= this.queueLimit) {
+      throw new ProverBusyError(this.estimateWaitSeconds());
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ input, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  get stats(): { size: number; busy: number; queued: number } {
+    return {
+      size: this.slots.length,
+      busy: this.slots.filter(s => s.current).length,
+      queued: this.queue.length,
+    };
+  }
+
+  private estimateWaitSeconds(): number {
+    const rounds = Math.ceil((this.queue.length + 1) / this.size);
+    return Math.max(1, Math.ceil((rounds * this.averageDurationMs) / 1000));
+  }
+
+  private dispatch(): void {
+    for (const slot of this.slots) {
+      if (this.queue.length === 0) {
+        return;
+      }
+      if (!slot.current) {
+        this.start(slot, this.queue.shift()!);
+      }
+    }
+  }
+
+  private start(slot: ProverSlot, task: ProofTask): void {
+    const id = this.nextId++;
+    const timer = setTimeout(() => {
+      logger.warn('Proof timed out, restarting prover worker', { id, timeoutMs: this.timeoutMs });
+      slot.current = undefined;
+      this.replace(slot);
+      task.reject(new ProofTimeoutError(this.timeoutMs));
+    }, this.timeoutMs);
+
+    slot.current = { id, task, timer, startedAt: Date.now() };
+    slot.worker.postMessage({ id, input: task.input });
+  }
+
+  private finish(slot: ProverSlot, message: { id: number; error?: string } & Partial<ProofResult>): void {
+    const current = slot.current;
+    if (!current || current.id !== message.id) {
+      return;
+    }
+
+    clearTimeout(current.timer);
+    slot.current = undefined;
+
+    if (message.error) {
+      current.task.reject(new Error(message.error));
+    } else {
+      const duration = Date.now() - current.startedAt;
+      this.averageDurationMs = Math.round(this.averageDurationMs * 0.8 + duration * 0.2);
+      current.task.resolve({ proof: message.proof, publicSignals: message.publicSignals! });
+    }
+
+    this.dispatch();
+  }
+
+  private spawn(): ProverSlot {
+    const slot: ProverSlot = { worker: createWorker(this.artifacts) };
+
+    slot.worker.on('message', (message) => this.finish(slot, message));
+    slot.worker.on('error', (error) => {
+      logger.error('Prover worker crashed', { error: error.message, stack: error.stack });
+      const current = slot.current;
+      if (!current) {
+        // Crashed while idle or starting up - drop it instead of respawning in a loop
+        this.remove(slot);
+        return;
+      }
+      clearTimeout(current.timer);
+      slot.current = undefined;
+      current.task.reject(error);
+      this.replace(slot);
+    });
+    // Idle workers should not keep the process alive
+    slot.worker.unref();
+
+    return slot;
+  }
+
+  private remove(slot: ProverSlot): void {
+    this.slots = this.slots.filter(s => s !== slot);
+    slot.worker.removeAllListeners();
+    slot.worker.terminate().catch(() => undefined);
+
+    // Nothing left to run queued proofs - fail them, the next prove() respawns workers
+    if (this.slots.length === 0) {
+      for (const task of this.queue.splice(0)) {
+        task.reject(new Error('No prover workers available'));
+      }
+    }
+  }
+
+  private replace(slot: ProverSlot): void {
+    const index = this.slots.indexOf(slot);
+    if (index === -1) {
+      return;
+    }
+
+    slot.worker.removeAllListeners();
+    slot.worker.terminate().catch(() => undefined);
+    this.slots[index] = this.spawn();
+    this.dispatch();
+  }
+}
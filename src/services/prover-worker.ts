@@ -0,0 +1,39 @@
+import { parentPort, workerData } from 'worker_threads';
+import * as snarkjs from 'snarkjs';
+// @ts-ignore
+import { WitnessCalculatorBuilder } from 'circom_runtime';
+// @ts-ignore
+import * as ffjavascript from 'ffjavascript';
+const { unstringifyBigInts } = ffjavascript.utils as any;
+
+/**
+ * Worker thread entry point for the prover pool
+ * Runs one snarkjs proof at a time, off the main event loop. The proving key
+ * is shared with the other workers; the witness calculator is compiled once
+ * per worker and reused for every proof.
+ */
+
+interface ProveRequest {
+  id: number;
+  input: Record<string, any>;
+}
+
+const { wasm, zkey } = workerData as { wasm: Uint8Array; zkey: Uint8Array };
+
+// WebAssembly does not compile from shared memory, so take a private copy of the (small) wasm
+const witnessCalculator: Promise<any> = WitnessCalculatorBuilder(new Uint8Array(wasm));
+// Reported on the first proof instead of crashing the idle worker
+witnessCalculator.catch(() => undefined);
+
+parentPort!.on('message', async (request: ProveRequest) => {
+  try {
+    const calculator = await witnessCalculator;
+    const witness: Uint8Array = await calculator.calculateWTNSBin(unstringifyBigInts(request.input), 0);
+
+    // The pool provides the parallelism, so keep each worker to a single thread
+    const { proof, publicSignals } = await snarkjs.groth16.prove(zkey, witness, undefined, { singleThread: true });
+    parentPort!.postMessage({ id: request.id, proof, publicSignals });
+  } catch (error: any) {
+    parentPort!.postMessage({ id: request.id, error: error?.message || String(error) });
+  }
+});
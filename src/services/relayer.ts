@@ -1,270 +1,470 @@
 import { config } from '../config/env.js';
 import { logger } from '../middleware/logging.js';
 
-interface TreeState {
+export interface TreeState {
   root: string;
   nextIndex: number;
 }
 
-interface MerkleProof {
+export interface MerkleProof {
   pathElements: string[];
   pathIndices: number[];
 }
 
-interface RelayerConfig {
+export interface RelayerConfig {
   withdraw_fee_rate: number;
   withdraw_rent_fee: number;
   deposit_fee_rate: number;
   usdc_withdraw_rent_fee: number;
   rent_fees: Record<string, number>;
+  minimum_withdrawal?: unknown;
+  prices?: unknown;
+  // Pools the relayer serves beyond the built-in tokens, keyed by symbol (optional)
+  tokens?: Record<string, { name?: string; mint: string; decimals: number }>;
 }
 
-let cachedConfig: RelayerConfig | null = null;
+export interface UtxoRange {
+  encrypted_outputs: string[];
+  // The tree leaves, aligned with encrypted_outputs (only when the relayer includes them)
+  commitments?: string[];
+  hasMore: boolean;
+  total: number;
+}
+
+export interface RelayDepositParams {
+  signedTransaction: string;
+  senderAddress: string;
+  referrer?: string;
+  mintAddress?: string;
+}
+
+export interface SubmitWithdrawParams {
+  serializedProof: string;
+  treeAccount: string;
+  nullifier0PDA: string;
+  nullifier1PDA: string;
+  nullifier2PDA: string;
+  nullifier3PDA: string;
+  treeTokenAccount: string;
+  globalConfigAccount: string;
+  recipient: string;
+  feeRecipientAccount: string;
+  extAmount: number;
+  encryptedOutput1: string;
+  encryptedOutput2: string;
+  fee: number;
+  lookupTableAddress: string;
+  senderAddress: string;
+  referralWalletAddress?: string;
+  // SPL specific
+  treeAta?: string;
+  recipientAta?: string;
+  mintAddress?: string;
+  feeRecipientTokenAccount?: string;
+}
+
+/**
+ * Everything the service needs from a Privacy Cash relayer
+ * tokenName is the lowercase token name; omitted for SOL
+ */
+export interface RelayerClient {
+  queryTreeState(tokenName?: string): Promise<TreeState>;
+  fetchMerkleProof(commitment: string, tokenName?: string): Promise<MerkleProof>;
+  getConfig(): Promise<RelayerConfig>;
+  relayDeposit(params: RelayDepositParams): Promise<{ signature: string; success: boolean }>;
+  submitWithdraw(params: SubmitWithdrawParams): Promise<{ signature: string; success: boolean }>;
+  fetchUtxoRange(start: number, end: number, tokenName?: string): Promise<UtxoRange>;
+  fetchUtxoIndices(encryptedOutputs: string[]): Promise<{ indices: number[] }>;
+  checkUtxoExists(encryptedOutput: string, tokenName?: string): Promise<boolean>;
+  getHealth?(): RelayerEndpointHealth[];
+}
+
+export interface HttpRelayerOptions {
+  // Tried in order; later URLs are only used while earlier ones are unhealthy
+  urls: string[];
+  timeoutMs: number;
+  // Extra attempts for idempotent reads (relays are never retried)
+  retries: number;
+  backoffMs: number;
+  // How long a failing relayer is skipped
+  cooldownMs: number;
+}
+
+export interface RelayerEndpointHealth {
+  url: string;
+  healthy: boolean;
+  consecutiveFailures: number;
+  lastError?: string;
+}
+
+interface Endpoint {
+  url: string;
+  consecutiveFailures: number;
+  unhealthyUntil: number;
+  lastError?: string;
+}
+
+interface RelayerResponse {
+  url: string;
+  status: number;
+  ok: boolean;
+  body: string;
+}
 
 /**
- * Query the current merkle tree state from the relayer
- * Uses /merkle/root endpoint (matches SDK)
+ * Relayer client over HTTP with failover between several relayers
+ * Every call has a timeout. Reads are retried with backoff on the next
+ * healthy relayer; deposit and withdraw relays go to one relayer only, since
+ * a timed-out relay may still have landed.
  */
-export async function queryTreeState(tokenName?: string): Promise<TreeState> {
-  let url = `${config.relayerUrl}/merkle/root`;
-  if (tokenName) {
-    url += `?token=${tokenName}`;
+export class HttpRelayerClient implements RelayerClient {
+  private endpoints: Endpoint[];
+
+  constructor(private readonly options: HttpRelayerOptions) {
+    if (options.urls.length === 0) {
+      throw new Error('At least one relayer URL is required');
+    }
+    this.endpoints = options.urls.map(url => ({ url, consecutiveFailures: 0, unhealthyUntil: 0 }));
   }
 
-  logger.debug('Querying tree state', { url, network: config.network });
+  /**
+   * Query the current merkle tree state
+   * Uses /merkle/root endpoint (matches SDK)
+   */
+  async queryTreeState(tokenName?: string): Promise<TreeState> {
+    const path = withToken('/merkle/root', tokenName);
+    logger.debug('Querying tree state', { path, network: config.network });
 
-  try {
-    const response = await fetch(url);
+    const response = await this.read(path);
     if (!response.ok) {
-      const errorText = await response.text();
-      const error = new Error(`Failed to query tree state: ${response.status} - ${errorText.substring(0, 100)}`);
-      logger.error('Failed to query tree state', { 
-        url, 
-        status: response.status, 
-        errorText: errorText.substring(0, 200),
-        network: config.network 
+      logger.error('Failed to query tree state', {
+        url: response.url,
+        status: response.status,
+        errorText: response.body.substring(0, 200),
+        network: config.network
       });
-      throw error;
+      throw new Error(`Failed to query tree state: ${response.status} - ${response.body.substring(0, 100)}`);
     }
 
-    const data = await response.json() as TreeState;
+    const data = JSON.parse(response.body) as TreeState;
     logger.debug('Tree state received', { root: data.root, nextIndex: data.nextIndex });
 
     return data;
-  } catch (error: any) {
-    logger.error('Tree state query error', { url, error: error.message, stack: error.stack });
-    throw error;
   }
-}
 
-/**
- * Fetch merkle proof for a commitment
- */
-export async function fetchMerkleProof(commitment: string, tokenName?: string): Promise<MerkleProof> {
-  // SDK uses /merkle/proof/{commitment}
-  let url = `${config.relayerUrl}/merkle/proof/${commitment}`;
-  if (tokenName) {
-    url += `?token=${tokenName}`;
+  /**
+   * Fetch merkle proof for a commitment
+   */
+  async fetchMerkleProof(commitment: string, tokenName?: string): Promise<MerkleProof> {
+    // SDK uses /merkle/proof/{commitment}
+    const path = withToken(`/merkle/proof/${commitment}`, tokenName);
+    logger.debug('Fetching merkle proof', { commitment, path });
+
+    const response = await this.read(path);
+    if (!response.ok) {
+      logger.error('Failed to fetch merkle proof', {
+        commitment,
+        url: response.url,
+        status: response.status,
+        errorText: response.body.substring(0, 200)
+      });
+      throw new Error(`Failed to fetch merkle proof: ${response.status} - ${response.body.substring(0, 100)}`);
+    }
+
+    return JSON.parse(response.body) as MerkleProof;
+  }
+
+  /**
+   * Get relayer configuration (fee rates, etc.)
+   */
+  async getConfig(): Promise<RelayerConfig> {
+    const response = await this.read('/config');
+    if (!response.ok) {
+      throw new Error(`Failed to get relayer config: ${response.status}`);
+    }
+
+    return JSON.parse(response.body) as RelayerConfig;
   }
 
-  logger.debug('Fetching merkle proof', { commitment, url });
+  /**
+   * Relay a signed deposit transaction
+   */
+  async relayDeposit(params: RelayDepositParams): Promise<{ signature: string; success: boolean }> {
+    const path = params.mintAddress ? '/deposit/spl' : '/deposit';
 
-  try {
-    const response = await fetch(url);
+    logger.debug('Relaying deposit transaction');
+
+    const body: Record<string, any> = {
+      signedTransaction: params.signedTransaction,
+      senderAddress: params.senderAddress,
+    };
+
+    if (params.referrer) {
+      body.referralWalletAddress = params.referrer;
+    }
+    if (params.mintAddress) {
+      body.mintAddress = params.mintAddress;
+    }
+
+    const response = await this.relay(path, body);
     if (!response.ok) {
-      const errorText = await response.text();
-      logger.error('Failed to fetch merkle proof', { 
-        commitment, 
-        url, 
-        status: response.status, 
-        errorText: errorText.substring(0, 200) 
+      logger.error('Deposit relay failed', {
+        url: response.url,
+        status: response.status,
+        errorText: response.body.substring(0, 500),
+        senderAddress: params.senderAddress,
+        mintAddress: params.mintAddress
       });
-      throw new Error(`Failed to fetch merkle proof: ${response.status} - ${errorText.substring(0, 100)}`);
+      throw new Error(`Deposit relay failed: ${response.body}`);
     }
 
-    return response.json() as Promise<MerkleProof>;
-  } catch (error: any) {
-    logger.error('Merkle proof fetch error', { commitment, url, error: error.message, stack: error.stack });
-    throw error;
+    const result = JSON.parse(response.body) as { signature: string; success: boolean };
+    logger.info('Deposit relayed successfully', { signature: result.signature });
+    return result;
   }
-}
 
-/**
- * Get relayer configuration (fee rates, etc.)
- */
-export async function getRelayerConfig(): Promise<RelayerConfig> {
-  if (cachedConfig) return cachedConfig;
+  /**
+   * Submit a withdrawal request
+   */
+  async submitWithdraw(params: SubmitWithdrawParams): Promise<{ signature: string; success: boolean }> {
+    const path = params.mintAddress ? '/withdraw/spl' : '/withdraw';
+
+    logger.debug('Submitting withdrawal request');
 
-  const url = `${config.relayerUrl}/config`;
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to get relayer config: ${response.status}`);
+    const response = await this.relay(path, params);
+    if (!response.ok) {
+      const errorData = parseJson<{ error?: string }>(response.body) ?? {};
+      logger.error('Withdrawal submission failed', {
+        url: response.url,
+        status: response.status,
+        error: errorData.error,
+        recipient: params.recipient,
+        mintAddress: params.mintAddress
+      });
+      throw new Error(errorData.error || `Withdraw failed: ${response.status}`);
+    }
+
+    const result = JSON.parse(response.body) as { signature: string; success: boolean };
+    logger.info('Withdrawal submitted successfully', { signature: result.signature });
+    return result;
   }
 
-  cachedConfig = await response.json() as RelayerConfig;
-  return cachedConfig;
-}
+  /**
+   * Fetch encrypted UTXOs for a range
+   */
+  async fetchUtxoRange(start: number, end: number, tokenName?: string): Promise<UtxoRange> {
+    const response = await this.read(withToken(`/utxos/range?start=${start}&end=${end}`, tokenName));
+    if (!response.ok) {
+      throw new Error(`Failed to fetch UTXOs: ${response.status}`);
+    }
 
-/**
- * Relay a signed deposit transaction
- */
-export async function relayDeposit(params: {
-  signedTransaction: string;
-  senderAddress: string;
-  referrer?: string;
-  mintAddress?: string;
-}): Promise<{ signature: string; success: boolean }> {
-  const isSpl = !!params.mintAddress;
-  const url = isSpl
-    ? `${config.relayerUrl}/deposit/spl`
-    : `${config.relayerUrl}/deposit`;
+    return JSON.parse(response.body) as UtxoRange;
+  }
+
+  /**
+   * Get UTXO indices for encrypted outputs
+   * A POST, but a pure lookup, so it is retried like the other reads
+   */
+  async fetchUtxoIndices(encryptedOutputs: string[]): Promise<{ indices: number[] }> {
+    const response = await this.read('/utxos/indices', { encrypted_outputs: encryptedOutputs });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch UTXO indices: ${response.status}`);
+    }
 
-  logger.debug('Relaying deposit transaction');
+    return JSON.parse(response.body) as { indices: number[] };
+  }
 
-  const body: Record<string, any> = {
-    signedTransaction: params.signedTransaction,
-    senderAddress: params.senderAddress,
-  };
+  /**
+   * Check if a UTXO exists
+   */
+  async checkUtxoExists(encryptedOutput: string, tokenName?: string): Promise<boolean> {
+    const response = await this.read(withToken(`/utxos/check/${encryptedOutput}`, tokenName));
+    if (!response.ok) {
+      throw new Error(`Failed to check UTXO: ${response.status}`);
+    }
 
-  if (params.referrer) {
-    body.referralWalletAddress = params.referrer;
+    const data = JSON.parse(response.body) as { exists: boolean };
+    return data.exists;
   }
-  if (params.mintAddress) {
-    body.mintAddress = params.mintAddress;
+
+  getHealth(): RelayerEndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map(e => ({
+      url: e.url,
+      healthy: e.unhealthyUntil <= now,
+      consecutiveFailures: e.consecutiveFailures,
+      ...(e.lastError && { lastError: e.lastError }),
+    }));
   }
 
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    logger.error('Deposit relay failed', { 
-      url, 
-      status: response.status, 
-      errorText: errorText.substring(0, 500),
-      senderAddress: params.senderAddress,
-      mintAddress: params.mintAddress
-    });
-    throw new Error(`Deposit relay failed: ${errorText}`);
+  /**
+   * Idempotent request: fail over and retry with backoff on network errors,
+   * timeouts and 5xx answers
+   */
+  private async read(path: string, body?: unknown): Promise<RelayerResponse> {
+    const attempts = Math.max(this.options.retries + 1, this.endpoints.length);
+    const tried = new Set<Endpoint>();
+    let lastError: Error = new Error('No relayer available');
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) {
+        await sleep(this.options.backoffMs * 2 ** (attempt - 1));
+      }
+
+      const endpoint = this.pickEndpoint(tried);
+      tried.add(endpoint);
+
+      try {
+        const response = await this.send(endpoint, path, body);
+        if (response.status < 500) {
+          this.markHealthy(endpoint);
+          return response;
+        }
+        lastError = new Error(`Relayer answered ${response.status}: ${response.body.substring(0, 100)}`);
+        // Out of attempts: hand the 5xx to the caller so it reports it as before
+        if (attempt === attempts - 1) {
+          this.markFailed(endpoint, lastError);
+          return response;
+        }
+      } catch (error: any) {
+        lastError = error;
+      }
+
+      this.markFailed(endpoint, lastError);
+      logger.warn('Relayer request failed, retrying', {
+        url: endpoint.url,
+        path: stripQuery(path),
+        attempt: attempt + 1,
+        error: lastError.message,
+      });
+    }
+
+    throw lastError;
   }
 
-  const result = await response.json() as { signature: string; success: boolean };
-  logger.info('Deposit relayed successfully', { signature: result.signature });
-  return result;
-}
+  /**
+   * Non-idempotent request: sent once to the preferred healthy relayer
+   */
+  private async relay(path: string, body: unknown): Promise<RelayerResponse> {
+    const endpoint = this.pickEndpoint(new Set());
+
+    try {
+      const response = await this.send(endpoint, path, body);
+      if (response.status >= 500) {
+        this.markFailed(endpoint, new Error(`Relayer answered ${response.status}`));
+      } else {
+        this.markHealthy(endpoint);
+      }
+      return response;
+    } catch (error: any) {
+      this.markFailed(endpoint, error);
+      throw error;
+    }
+  }
 
-/**
- * Submit a withdrawal request
- */
-export async function submitWithdraw(params: {
-  serializedProof: string;
-  treeAccount: string;
-  nullifier0PDA: string;
-  nullifier1PDA: string;
-  nullifier2PDA: string;
-  nullifier3PDA: string;
-  treeTokenAccount: string;
-  globalConfigAccount: string;
-  recipient: string;
-  feeRecipientAccount: string;
-  extAmount: number;
-  encryptedOutput1: string;
-  encryptedOutput2: string;
-  fee: number;
-  lookupTableAddress: string;
-  senderAddress: string;
-  referralWalletAddress?: string;
-  // SPL specific
-  treeAta?: string;
-  recipientAta?: string;
-  mintAddress?: string;
-  feeRecipientTokenAccount?: string;
-}): Promise<{ signature: string; success: boolean }> {
-  const isSpl = !!params.mintAddress;
-  const url = isSpl
-    ? `${config.relayerUrl}/withdraw/spl`
-    : `${config.relayerUrl}/withdraw`;
-
-  logger.debug('Submitting withdrawal request');
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(params),
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json() as { error?: string };
-    logger.error('Withdrawal submission failed', { 
-      url, 
-      status: response.status, 
-      error: errorData.error,
-      recipient: params.recipient,
-      mintAddress: params.mintAddress
-    });
-    throw new Error(errorData.error || `Withdraw failed: ${response.status}`);
+  private async send(endpoint: Endpoint, path: string, body?: unknown): Promise<RelayerResponse> {
+    const url = `${endpoint.url}${path}`;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        signal: controller.signal,
+        ...(body !== undefined && {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }),
+      });
+      // Read the body under the same timeout
+      const text = await response.text();
+      return { url, status: response.status, ok: response.ok, body: text };
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        throw new Error(`Relayer request timed out after ${this.options.timeoutMs}ms: ${stripQuery(path)}`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * First healthy endpoint not tried yet, else the least recently failing one
+   */
+  private pickEndpoint(tried: Set<Endpoint>): Endpoint {
+    const now = Date.now();
+    const untried = this.endpoints.filter(e => !tried.has(e));
+    const candidates = untried.length > 0 ? untried : this.endpoints;
+
+    return candidates.find(e => e.unhealthyUntil <= now)
+      ?? candidates.reduce((best, e) => (e.unhealthyUntil < best.unhealthyUntil ? e : best));
   }
 
-  const result = await response.json() as { signature: string; success: boolean };
-  logger.info('Withdrawal submitted successfully', { signature: result.signature });
-  return result;
+  private markHealthy(endpoint: Endpoint): void {
+    endpoint.consecutiveFailures = 0;
+    endpoint.unhealthyUntil = 0;
+    endpoint.lastError = undefined;
+  }
+
+  private markFailed(endpoint: Endpoint, error: Error): void {
+    endpoint.consecutiveFailures++;
+    endpoint.unhealthyUntil = Date.now() + this.options.cooldownMs;
+    endpoint.lastError = error.message;
+  }
+}
+
+let relayerClient: RelayerClient = new HttpRelayerClient({
+  urls: config.relayerUrls,
+  timeoutMs: config.relayerTimeoutMs,
+  retries: config.relayerRetries,
+  backoffMs: 250,
+  cooldownMs: 30_000,
+});
+
+let cachedConfig: RelayerConfig | null = null;
+
+export function getRelayerClient(): RelayerClient {
+  return relayerClient;
 }
 
 /**
- * Fetch encrypted UTXOs for a range
+ * Swap the relayer backend (e.g. for an in-process relayer)
  */
-export async function fetchUtxoRange(start: number, end: number, tokenName?: string): Promise<{
-  encrypted_outputs: string[];
-  hasMore: boolean;
-  total: number;
-}> {
-  const baseUrl = tokenName
-    ? `${config.relayerUrl}/utxos/range?start=${start}&end=${end}&token=${tokenName}`
-    : `${config.relayerUrl}/utxos/range?start=${start}&end=${end}`;
-
-  const response = await fetch(baseUrl);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch UTXOs: ${response.status}`);
-  }
-
-  return response.json() as Promise<{ encrypted_outputs: string[]; hasMore: boolean; total: number }>;
+export function setRelayerClient(client: RelayerClient): void {
+  relayerClient = client;
+  cachedConfig = null;
 }
 
 /**
- * Get UTXO indices for encrypted outputs
+ * Relayer configuration, fetched once and cached (fee rates, etc.)
  */
-export async function fetchUtxoIndices(encryptedOutputs: string[]): Promise<{ indices: number[] }> {
-  const url = `${config.relayerUrl}/utxos/indices`;
+export async function getRelayerConfig(): Promise<RelayerConfig> {
+  if (cachedConfig) return cachedConfig;
 
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ encrypted_outputs: encryptedOutputs }),
-  });
+  cachedConfig = await relayerClient.getConfig();
+  return cachedConfig;
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch UTXO indices: ${response.status}`);
+function withToken(path: string, tokenName?: string): string {
+  if (!tokenName) {
+    return path;
   }
+  return `${path}${path.includes('?') ? '&' : '?'}token=${encodeURIComponent(tokenName)}`;
+}
 
-  return response.json() as Promise<{ indices: number[] }>;
+function stripQuery(path: string): string {
+  return path.split('?')[0];
 }
 
-/**
- * Check if a UTXO exists
- */
-export async function checkUtxoExists(encryptedOutput: string, tokenName?: string): Promise<boolean> {
-  const url = tokenName
-    ? `${config.relayerUrl}/utxos/check/${encryptedOutput}?token=${tokenName}`
-    : `${config.relayerUrl}/utxos/check/${encryptedOutput}`;
-
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to check UTXO: ${response.status}`);
+function parseJson<T>(text: string): T | undefined {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return undefined;
   }
+}
 
-  const data = await response.json() as { exists: boolean };
-  return data.exists;
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -0,0 +1,96 @@
+import { Connection } from '@solana/web3.js';
+import { config } from '../config/env.js';
+import { logger } from '../middleware/logging.js';
+import { ApiError, SelfRelayRateLimitError } from '../utils/errors.js';
+import type { SubmitWithdrawParams } from './relayer.js';
+import { buildWithdrawTransaction } from './transaction.js';
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+// Send times of recent self-relays per authenticated public key, oldest first
+const recentRelays = new Map<string, number[]>();
+
+/**
+ * Send a withdrawal (or transfer) through RPC instead of the relayer
+ * The operator keypair signs and pays. The transaction is simulated first, so
+ * a proof the program would reject costs nothing and uses up no rate slot.
+ * Each public key gets at most SELF_RELAY_MAX_PER_MINUTE sends per minute.
+ * Confirmation is left to the caller, as for relayed withdrawals.
+ */
+export async function selfRelayWithdraw(
+  connection: Connection,
+  withdrawParams: SubmitWithdrawParams,
+  publicKey: string
+): Promise<{ signature: string }> {
+  const operator = config.operatorKeypair;
+  if (!operator) {
+    throw new ApiError('Self-relay is not configured (OPERATOR_KEYPAIR is not set)', 503, 'SELF_RELAY_DISABLED');
+  }
+
+  checkRateLimit(publicKey);
+
+  const { transaction } = await buildWithdrawTransaction({
+    connection,
+    payer: operator.publicKey,
+    withdrawParams,
+  });
+
+  // Re-checked: concurrent requests of the key may have been sent meanwhile
+  takeRateSlot(publicKey);
+  transaction.sign([operator]);
+
+  let signature: string;
+  try {
+    signature = await connection.sendTransaction(transaction);
+  } catch (error: any) {
+    logger.error('Self-relayed withdrawal rejected', {
+      error: error.message,
+      logs: error.logs,
+      mintAddress: withdrawParams.mintAddress,
+    });
+    throw new ApiError(`Self-relayed withdrawal rejected: ${error.message}`, 502, 'SELF_RELAY_FAILED');
+  }
+
+  logger.info('Self-relayed withdrawal sent', { signature, operator: operator.publicKey.toBase58() });
+
+  return { signature };
+}
+
+/**
+ * Throw SelfRelayRateLimitError if publicKey used up its per-minute limit
+ */
+function checkRateLimit(publicKey: string): void {
+  const now = Date.now();
+  pruneRelays(now);
+
+  const relays = recentRelays.get(publicKey) ?? [];
+  if (relays.length >= config.selfRelayMaxPerMinute) {
+    const retryAfterSeconds = Math.ceil((relays[0] + RATE_WINDOW_MS - now) / 1000);
+    logger.warn('Self-relay rate limit reached', { publicKey, limit: config.selfRelayMaxPerMinute, retryAfterSeconds });
+    throw new SelfRelayRateLimitError(retryAfterSeconds);
+  }
+}
+
+/**
+ * Count a self-relay of publicKey against its per-minute limit
+ */
+function takeRateSlot(publicKey: string): void {
+  checkRateLimit(publicKey);
+  const relays = recentRelays.get(publicKey) ?? [];
+  relays.push(Date.now());
+  recentRelays.set(publicKey, relays);
+}
+
+/**
+ * Forget sends older than the window, and keys with none left
+ */
+function pruneRelays(now: number): void {
+  for (const [publicKey, relays] of recentRelays) {
+    while (relays.length > 0 && relays[0] <= now - RATE_WINDOW_MS) {
+      relays.shift();
+    }
+    if (relays.length === 0) {
+      recentRelays.delete(publicKey);
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { createHash, randomBytes } from 'crypto';
+import { config } from '../config/env.js';
+import { logger } from '../middleware/logging.js';
+import { ApiError } from '../utils/errors.js';
+import { EncryptionService } from './encryption.js';
+
+interface Session {
+  publicKey: string;
+  encryptionService: EncryptionService;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * In-memory store of sign-in sessions
+ * A session holds the EncryptionService derived from one verified sign-in
+ * signature, so clients send an opaque token instead of the signature on
+ * every call. Sessions are keyed by a hash of the token (the token itself is
+ * never stored) and their keys are zeroed on expiry or revocation. A public
+ * key holds at most maxPerPublicKey sessions (a new sign-in ends its oldest
+ * one) and the store at most maxSessions.
+ */
+export class SessionStore {
+  private sessions = new Map<string, Session>();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxPerPublicKey: number,
+    private readonly maxSessions: number
+  ) {
+    const sweeper = setInterval(() => this.sweep(), Math.min(ttlMs, 60_000));
+    sweeper.unref();
+  }
+
+  /**
+   * Open a session for an already verified signature and return its token
+   * Throws ApiError 503 when the store is full
+   */
+  create(publicKey: string, signature: string): { token: string; expiresAt: number } {
+    this.makeRoom(publicKey);
+
+    const encryptionService = new EncryptionService();
+    encryptionService.deriveEncryptionKeyFromSignature(Buffer.from(signature, 'base64'));
+
+    const token = randomBytes(32).toString('base64url');
+    const now = Date.now();
+    const session: Session = {
+      publicKey,
+      encryptionService,
+      createdAt: now,
+      expiresAt: now + this.ttlMs,
+    };
+
+    this.sessions.set(hashToken(token), session);
+    logger.debug('Session created', { publicKey, activeSessions: this.sessions.size });
+
+    return { token, expiresAt: session.expiresAt };
+  }
+
+  get(token: string): Session | undefined {
+    const key = hashToken(token);
+    const session = this.sessions.get(key);
+    if (session && session.expiresAt <= Date.now()) {
+      this.drop(key, session);
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * End a session early (logout); returns false if it was unknown or expired
+   */
+  revoke(token: string): boolean {
+    const key = hashToken(token);
+    const session = this.sessions.get(key);
+    if (!session) {
+      return false;
+    }
+    this.drop(key, session);
+    return session.expiresAt > Date.now();
+  }
+
+  /**
+   * Drop expired sessions and zero their keys
+   */
+  sweep(): void {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [key, session] of this.sessions) {
+      if (session.expiresAt <= now) {
+        this.drop(key, session);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      logger.debug('Expired sessions swept', { removed, remaining: this.sessions.size });
+    }
+  }
+
+  /**
+   * End publicKey's oldest sessions over its limit, then check the global one
+   */
+  private makeRoom(publicKey: string): void {
+    const own = [...this.sessions].filter(([, session]) => session.publicKey === publicKey);
+    own.sort(([, a], [, b]) => a.createdAt - b.createdAt);
+    for (const [key, session] of own.slice(0, Math.max(0, own.length - this.maxPerPublicKey + 1))) {
+      this.drop(key, session);
+    }
+
+    if (this.sessions.size >= this.maxSessions) {
+      this.sweep();
+    }
+    if (this.sessions.size >= this.maxSessions) {
+      throw new ApiError('Too many active sessions, retry later', 503, 'SESSION_LIMIT_REACHED');
+    }
+  }
+
+  private drop(key: string, session: Session): void {
+    session.encryptionService.destroy();
+    this.sessions.delete(key);
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Singleton instance
+export const sessionStore = new SessionStore(config.sessionTtlMs, config.sessionMaxPerPublicKey, config.sessionMaxTotal);
@@ -0,0 +1,66 @@
+import BN from 'bn.js';
+import bs58 from 'bs58';
+import { EncryptionService } from './encryption.js';
+import { Keypair as UtxoKeypair } from './models/keypair.js';
+import { ApiError } from '../utils/errors.js';
+import type * as hasher from '@lightprotocol/hasher.rs';
+
+// Version byte prefixed to every encoded shielded address
+const SHIELDED_ADDRESS_VERSION = 1;
+const SHIELDED_ADDRESS_LENGTH = 1 + 32 + 32;
+
+/**
+ * A publishable shielded address
+ * utxoPubkey owns the notes, encryptionPublicKey lets senders encrypt them to the owner
+ */
+export interface ShieldedAddress {
+  utxoPubkey: BN;
+  encryptionPublicKey: Uint8Array;
+}
+
+/**
+ * Encode a shielded address as base58: version || utxoPubkey (32 bytes BE) || encryptionPublicKey
+ */
+export function encodeShieldedAddress(address: ShieldedAddress): string {
+  return bs58.encode(Buffer.concat([
+    Buffer.from([SHIELDED_ADDRESS_VERSION]),
+    address.utxoPubkey.toArrayLike(Buffer, 'be', 32),
+    Buffer.from(address.encryptionPublicKey),
+  ]));
+}
+
+/**
+ * Decode and validate a base58 shielded address
+ */
+export function decodeShieldedAddress(encoded: string): ShieldedAddress {
+  let bytes: Uint8Array;
+  try {
+    bytes = bs58.decode(encoded);
+  } catch {
+    throw new ApiError('Invalid shielded address: not base58', 400, 'INVALID_SHIELDED_ADDRESS');
+  }
+
+  if (bytes.length !== SHIELDED_ADDRESS_LENGTH || bytes[0] !== SHIELDED_ADDRESS_VERSION) {
+    throw new ApiError('Invalid shielded address', 400, 'INVALID_SHIELDED_ADDRESS');
+  }
+
+  return {
+    utxoPubkey: new BN(bytes.slice(1, 33), 'be'),
+    encryptionPublicKey: bytes.slice(33, 65),
+  };
+}
+
+/**
+ * Derive the shielded address for a user from their encryption keys
+ * Notes are received on the V2 UTXO keypair
+ */
+export function getShieldedAddress(
+  encryptionService: EncryptionService,
+  lightWasm: hasher.LightWasm
+): ShieldedAddress {
+  const utxoKeypair = new UtxoKeypair(encryptionService.getUtxoPrivateKeyV2(), lightWasm);
+  return {
+    utxoPubkey: utxoKeypair.pubkey,
+    encryptionPublicKey: encryptionService.getEncryptionPublicKey(),
+  };
+}
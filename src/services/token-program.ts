@@ -0,0 +1,111 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import {
+  calculateEpochFee,
+  ExtensionType,
+  getAssociatedTokenAddressSync,
+  getExtensionTypes,
+  getTransferFeeConfig,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TransferFeeConfig,
+  unpackMint,
+} from '@solana/spl-token';
+import BN from 'bn.js';
+import { ApiError } from '../utils/errors.js';
+
+/**
+ * Token program of a mint (classic SPL Token or Token-2022)
+ * Token-2022 mints are checked for extensions the pool cannot work with.
+ * A transfer fee is refused on deposits, where the pool would receive less
+ * than the note records; on withdrawals it only reduces what reaches the
+ * recipient, so it is read to report that.
+ */
+
+export interface MintProgram {
+  programId: PublicKey;
+  decimals: number;
+  // Token-2022 transfer fee config (absent when the mint has none)
+  transferFeeConfig?: TransferFeeConfig;
+  epoch: number;
+}
+
+// Extensions that break deposits or withdrawals, or let a third party move or freeze pool funds
+const UNSUPPORTED_EXTENSIONS: Partial<Record<ExtensionType, string>> = {
+  [ExtensionType.ConfidentialTransferMint]: 'confidential transfers',
+  [ExtensionType.NonTransferable]: 'non-transferable',
+  [ExtensionType.TransferHook]: 'transfer hook',
+  [ExtensionType.PermanentDelegate]: 'permanent delegate',
+  [ExtensionType.PausableConfig]: 'pausable',
+  [ExtensionType.DefaultAccountState]: 'default account state',
+};
+
+/**
+ * Owning program of a mint, with its Token-2022 extensions checked
+ * Throws ApiError 400 for unknown programs and unsupported extensions
+ */
+export async function getMintProgram(connection: Connection, mint: PublicKey): Promise<MintProgram> {
+  const account = await connection.getAccountInfo(mint);
+  if (!account) {
+    throw new ApiError(`Mint account not found: ${mint.toBase58()}`, 400, 'UNSUPPORTED_MINT');
+  }
+
+  const programId = account.owner;
+  if (!programId.equals(TOKEN_PROGRAM_ID) && !programId.equals(TOKEN_2022_PROGRAM_ID)) {
+    throw new ApiError(`Mint is not owned by a token program: ${mint.toBase58()}`, 400, 'UNSUPPORTED_MINT');
+  }
+
+  const mintInfo = unpackMint(mint, account, programId);
+  const unsupported = getExtensionTypes(mintInfo.tlvData)
+    .map(extension => UNSUPPORTED_EXTENSIONS[extension])
+    .filter((name): name is string => name !== undefined);
+  if (unsupported.length > 0) {
+    throw new ApiError(
+      `Mint ${mint.toBase58()} uses unsupported Token-2022 extensions: ${unsupported.join(', ')}`,
+      400,
+      'UNSUPPORTED_MINT',
+      { extensions: unsupported }
+    );
+  }
+
+  const transferFeeConfig = getTransferFeeConfig(mintInfo) ?? undefined;
+  // The fee schedule is per epoch, so only look it up when there is one
+  const epoch = transferFeeConfig ? (await connection.getEpochInfo()).epoch : 0;
+
+  return { programId, decimals: mintInfo.decimals, transferFeeConfig, epoch };
+}
+
+/**
+ * Refuse deposits of a mint that charges a transfer fee, now or from its next schedule
+ * The note records the full amount, so the pool must receive all of it
+ */
+export function assertNoDepositTransferFee(mint: PublicKey, program: MintProgram): void {
+  const config = program.transferFeeConfig;
+  const charges = config && [config.olderTransferFee, config.newerTransferFee]
+    .some(fee => fee.transferFeeBasisPoints > 0 && fee.maximumFee > BigInt(0));
+  if (charges) {
+    throw new ApiError(
+      `Deposits of mints with a transfer fee are not supported: ${mint.toBase58()}`,
+      400,
+      'UNSUPPORTED_MINT',
+      { extensions: ['transfer fee'] }
+    );
+  }
+}
+
+/**
+ * Associated token account of owner for a mint of this program
+ */
+export function getTokenAccountAddress(mint: PublicKey, owner: PublicKey, program: MintProgram): PublicKey {
+  return getAssociatedTokenAddressSync(mint, owner, true, program.programId);
+}
+
+/**
+ * Transfer fee the token program withholds from a transfer of amount (0 without the extension)
+ */
+export function getTransferFee(program: MintProgram, amount: BN): BN {
+  if (!program.transferFeeConfig) {
+    return new BN(0);
+  }
+  const fee = calculateEpochFee(program.transferFeeConfig, BigInt(program.epoch), BigInt(amount.toString(10)));
+  return new BN(fee.toString());
+}
@@ -0,0 +1,248 @@
+import { readFileSync } from 'fs';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { unpackMint } from '@solana/spl-token';
+import { config, TokenConfig } from '../config/env.js';
+import { createTokenConfig } from '../config/networks.js';
+import { logger } from '../middleware/logging.js';
+import { ApiError } from '../utils/errors.js';
+import { getRelayerClient } from './relayer.js';
+
+/**
+ * Registry of the tokens the API serves
+ * Rebuilt on every refresh from the network profile's tokens, then
+ * TOKEN_REGISTRY_FILE on top. Tokens the relayer lists in its /config are only
+ * added when neither names their symbol or mint. Decimals are then checked
+ * against the on-chain mint accounts. Tokens disabled in the file are listed but refused by
+ * resolveToken/getTokenByMint; SOL cannot be disabled.
+ */
+
+export interface RegisteredToken extends TokenConfig {
+  enabled: boolean;
+  source: 'profile' | 'relayer' | 'file';
+}
+
+/**
+ * TOKEN_REGISTRY_FILE contents, keyed by symbol
+ * New tokens need mint and decimals; known ones can just set enabled.
+ * Entries that would change a profile token's name, mint or decimals are
+ * refused and only their enabled flag is kept.
+ */
+interface TokenRegistryFile {
+  tokens?: Record<string, { name?: string; mint?: string; decimals?: number; enabled?: boolean }>;
+}
+
+// A validated file entry: a full token, or an enabled flag for a known one
+type FileEntry = { symbol: string; token?: TokenConfig; enabled?: boolean };
+
+// getMultipleAccountsInfo accepts at most this many accounts
+const MINT_BATCH_SIZE = 100;
+
+export class TokenRegistry {
+  private tokens = new Map<string, RegisteredToken>();
+  // Tokens the relayer listed and the registry file as of the last refresh
+  private relayerTokens: RegisteredToken[] = [];
+  private fileEntries: FileEntry[];
+  // Decimals read from the mint accounts, by mint
+  private chainDecimals = new Map<string, number>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(private readonly file?: string) {
+    this.fileEntries = this.readFile();
+    this.rebuild();
+  }
+
+  /**
+   * Refresh now, then every intervalMs
+   */
+  start(connection: Connection, intervalMs: number): void {
+    const refresh = () => this.refresh(connection).catch(error => {
+      logger.error('Token registry refresh failed', { error: error.message });
+    });
+    void refresh();
+    this.timer = setInterval(refresh, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Reload the relayer's token list and the registry file, then check decimals on-chain
+   */
+  async refresh(connection: Connection): Promise<void> {
+    try {
+      const { tokens } = await getRelayerClient().getConfig();
+      const relayerTokens: RegisteredToken[] = [];
+      for (const [symbol, { name, mint, decimals }] of Object.entries(tokens ?? {})) {
+        try {
+          relayerTokens.push({ ...createTokenConfig(name ?? symbol.toUpperCase(), mint, decimals), enabled: true, source: 'relayer' });
+        } catch (error: any) {
+          logger.warn('Invalid relayer token entry', { symbol, error: error.message });
+        }
+      }
+      this.relayerTokens = relayerTokens;
+    } catch (error: any) {
+      // Keep the last list; the relayer may be briefly unreachable
+      logger.warn('Could not load tokens from the relayer config', { error: error.message });
+    }
+
+    this.fileEntries = this.readFile();
+    this.rebuild();
+    await this.refreshDecimals(connection);
+    this.rebuild();
+  }
+
+  getToken(symbol: string): TokenConfig | undefined {
+    return this.tokens.get(symbol.toLowerCase());
+  }
+
+  /**
+   * Enabled token with this mint
+   */
+  getTokenByMint(mint: string | PublicKey): TokenConfig | undefined {
+    const mintStr = typeof mint === 'string' ? mint : mint.toBase58();
+    for (const token of this.tokens.values()) {
+      if (token.enabled && token.mint.toBase58() === mintStr) {
+        return token;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Token for a request's optional mintAddress (SOL when omitted)
+   */
+  resolveToken(mintAddress?: string): TokenConfig {
+    if (!mintAddress) {
+      return this.tokens.get('sol')!;
+    }
+    const token = this.getTokenByMint(mintAddress);
+    if (!token) {
+      const disabled = Array.from(this.tokens.values()).some(t => t.mint.toBase58() === mintAddress);
+      throw new ApiError(
+        disabled ? `Token is disabled: ${mintAddress}` : `Unsupported token: ${mintAddress}`,
+        400,
+        disabled ? 'TOKEN_DISABLED' : 'UNSUPPORTED_TOKEN'
+      );
+    }
+    return token;
+  }
+
+  /**
+   * Enabled tokens
+   */
+  getAllTokens(): TokenConfig[] {
+    return this.list().filter(token => token.enabled);
+  }
+
+  /**
+   * Every registered token, enabled or not
+   */
+  list(): RegisteredToken[] {
+    return Array.from(this.tokens.values());
+  }
+
+  private rebuild(): void {
+    const tokens = new Map<string, RegisteredToken>();
+    const add = (token: RegisteredToken) => {
+      const decimals = this.chainDecimals.get(token.mint.toBase58()) ?? token.decimals;
+      tokens.set(token.name.toLowerCase(), { ...token, decimals, unitsPerToken: 10 ** decimals });
+    };
+
+    config.profileTokens.forEach(token => add({ ...token, enabled: true, source: 'profile' }));
+
+    // The relayer is not trusted: its tokens only add symbols and mints the profile and file lack
+    const fileTokens = this.fileEntries.flatMap(({ token }) => token ? [token] : []);
+    for (const token of this.relayerTokens) {
+      const symbol = token.name.toLowerCase();
+      const known = [...tokens.values(), ...fileTokens]
+        .some(t => t.name.toLowerCase() === symbol || t.mint.equals(token.mint));
+      if (!known) {
+        add(token);
+      }
+    }
+
+    for (const { symbol, token, enabled } of this.fileEntries) {
+      const existing = tokens.get(symbol);
+      if (token) {
+        add({ ...token, enabled: enabled ?? true, source: 'file' });
+      } else if (existing) {
+        existing.enabled = enabled ?? existing.enabled;
+      }
+    }
+
+    tokens.get('sol')!.enabled = true;
+    this.tokens = tokens;
+  }
+
+  /**
+   * Registry file entries; a broken file or entry is logged and ignored
+   */
+  private readFile(): FileEntry[] {
+    if (!this.file) {
+      return [];
+    }
+
+    let contents: TokenRegistryFile;
+    try {
+      contents = JSON.parse(readFileSync(this.file, 'utf8'));
+    } catch (error: any) {
+      logger.error('Could not read the token registry file', { file: this.file, error: error.message });
+      return [];
+    }
+
+    const entries: FileEntry[] = [];
+    for (const [symbol, { name, mint, decimals, enabled }] of Object.entries(contents.tokens ?? {})) {
+      if (mint === undefined || decimals === undefined) {
+        entries.push({ symbol: symbol.toLowerCase(), enabled });
+        continue;
+      }
+      try {
+        const token = createTokenConfig(name ?? symbol.toUpperCase(), mint, decimals);
+        // Profile tokens can only be toggled, so a bad file cannot redirect or rescale them
+        const profileToken = config.profileTokens.find(t =>
+          [symbol.toLowerCase(), token.name.toLowerCase()].includes(t.name.toLowerCase()) || t.mint.equals(token.mint));
+        if (profileToken) {
+          logger.warn('Token registry file cannot change a profile token', { symbol, profileToken: profileToken.name });
+          entries.push({ symbol: symbol.toLowerCase(), enabled });
+          continue;
+        }
+        entries.push({ symbol: token.name.toLowerCase(), token, enabled });
+      } catch (error: any) {
+        logger.warn('Invalid token registry file entry', { symbol, error: error.message });
+      }
+    }
+    return entries;
+  }
+
+  private async refreshDecimals(connection: Connection): Promise<void> {
+    const mints = this.list().map(token => token.mint);
+
+    for (let i = 0; i < mints.length; i += MINT_BATCH_SIZE) {
+      const batch = mints.slice(i, i + MINT_BATCH_SIZE);
+      const accounts = await connection.getMultipleAccountsInfo(batch);
+
+      accounts.forEach((account, j) => {
+        const mint = batch[j].toBase58();
+        if (!account) {
+          logger.warn('Mint account not found', { mint });
+          return;
+        }
+        try {
+          const { decimals } = unpackMint(batch[j], account, account.owner);
+          const previous = this.list().find(token => token.mint.toBase58() === mint)?.decimals;
+          if (previous !== undefined && previous !== decimals) {
+            logger.warn('Token decimals differ from the mint account', { mint, configured: previous, onChain: decimals });
+          }
+          this.chainDecimals.set(mint, decimals);
+        } catch (error: any) {
+          logger.warn('Not a valid mint account', { mint, error: error.message });
+        }
+      });
+    }
+  }
+}
+
+// Singleton instance
+export const tokenRegistry = new TokenRegistry(config.tokenRegistryFile);
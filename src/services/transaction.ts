@@ -1,4 +1,5 @@
 import {
+  AddressLookupTableAccount,
   Connection,
   PublicKey,
   TransactionInstruction,
@@ -6,28 +7,38 @@ import {
   ComputeBudgetProgram,
   VersionedTransaction,
   TransactionMessage,
+  TransactionError,
 } from '@solana/web3.js';
 import {
-  getAssociatedTokenAddressSync,
-  TOKEN_PROGRAM_ID,
   ASSOCIATED_TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
 } from '@solana/spl-token';
 import BN from 'bn.js';
 import { config } from '../config/env.js';
 import {
   getProgramAccounts,
   getSplTreeAccount,
-  FEE_RECIPIENT,
   TRANSACT_IX_DISCRIMINATOR,
   TRANSACT_SPL_IX_DISCRIMINATOR,
 } from '../utils/constants.js';
 import { logger } from '../middleware/logging.js';
+import { ApiError, TransactionSimulationError } from '../utils/errors.js';
+import { estimateNetworkFee, PriorityFee, resolveComputeUnitPrice } from './priority-fee.js';
+import type { SubmitWithdrawParams } from './relayer.js';
+import { getMintProgram, getTokenAccountAddress, MintProgram } from './token-program.js';
 
 // @ts-ignore
 import * as ffjavascript from 'ffjavascript';
 const utils = ffjavascript.utils as any;
 const { unstringifyBigInts, leInt2Buff } = utils;
 
+// Simulation runs at the maximum limit; the returned transaction gets its usage plus this margin
+const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+const COMPUTE_UNIT_MARGIN = 0.1;
+// Floor for the fitted limit (the runtime's default for one instruction)
+const MIN_COMPUTE_UNIT_LIMIT = 200_000;
+
 interface ProofData {
   proofA: number[];
   proofB: number[];
@@ -115,6 +126,171 @@ export function serializeProofAndExtData(proof: ProofData, extData: ExtData, isS
   ]);
 }
 
+/**
+ * Fields recovered from a transact instruction's data
+ * Field elements are left as the raw 32 bytes found on-chain
+ */
+export interface DecodedTransact {
+  isSpl: boolean;
+  inputNullifiers: Buffer[];
+  outputCommitments: Buffer[];
+  extAmount: BN;
+  fee: BN;
+}
+
+/**
+ * Decode transact instruction data (inverse of serializeProofAndExtData)
+ * Returns null when the data is not a transact instruction
+ */
+export function decodeTransactInstruction(data: Buffer): DecodedTransact | null {
+  const discriminator = data.subarray(0, 8);
+  const isSpl = discriminator.equals(TRANSACT_SPL_IX_DISCRIMINATOR);
+  if (!isSpl && !discriminator.equals(TRANSACT_IX_DISCRIMINATOR)) {
+    return null;
+  }
+
+  // discriminator(8) + proofA(64) + proofB(128) + proofC(64) + root(32) + publicAmount(32) + extDataHash(32)
+  const offset = 360;
+  if (data.length < offset + 4 * 32 + 16) {
+    return null;
+  }
+
+  const field = (i: number) => Buffer.from(data.subarray(offset + i * 32, offset + (i + 1) * 32));
+  const extDataOffset = offset + 4 * 32;
+
+  return {
+    isSpl,
+    inputNullifiers: [field(0), field(1)],
+    outputCommitments: [field(2), field(3)],
+    extAmount: new BN(data.subarray(extDataOffset, extDataOffset + 8), 'le').fromTwos(64),
+    fee: new BN(data.subarray(extDataOffset + 8, extDataOffset + 16), 'le'),
+  };
+}
+
+/**
+ * Outcome of simulating a prepared transaction
+ */
+export interface SimulationReport {
+  unitsConsumed: number;
+  // Limit set on the returned transaction (usage plus COMPUTE_UNIT_MARGIN, at least MIN_COMPUTE_UNIT_LIMIT)
+  computeUnitLimit: number;
+  logs: string[];
+}
+
+/**
+ * What the network charges for a prepared transaction
+ */
+export interface NetworkFee {
+  computeUnitPrice: number; // micro-lamports per compute unit
+  fee: BN; // lamports: base fee plus priority fee on the compute unit limit
+}
+
+/**
+ * The protocol's address lookup table (ALT_ADDRESS)
+ */
+export async function getLookupTable(connection: Connection): Promise<AddressLookupTableAccount> {
+  const { value } = await connection.getAddressLookupTable(config.altAddress);
+  if (!value) {
+    throw new Error(`ALT not found at ${config.altAddress.toBase58()}`);
+  }
+  return value;
+}
+
+/**
+ * Compile instructions into a v0 transaction (with the ALT) and simulate it
+ * unsigned, then compile it again with a compute unit limit fitted to the
+ * simulated usage and the compute unit price of the priority fee
+ * Throws TransactionSimulationError when the simulation fails
+ */
+async function compileSimulatedTransaction(params: {
+  connection: Connection;
+  payer: PublicKey;
+  instructions: TransactionInstruction[];
+  priorityFee?: PriorityFee;
+}): Promise<{ transaction: VersionedTransaction; simulation: SimulationReport; networkFee: NetworkFee }> {
+  const { connection, payer, instructions, priorityFee = 'none' } = params;
+
+  const lookupTable = await getLookupTable(connection);
+  const recentBlockhash = await connection.getLatestBlockhash();
+
+  const writableAccounts = [payer, ...instructions.flatMap(ix => ix.keys.filter(key => key.isWritable).map(key => key.pubkey))];
+  const computeUnitPrice = await resolveComputeUnitPrice(connection, priorityFee, writableAccounts);
+  const priceInstructions = computeUnitPrice > 0
+    ? [ComputeBudgetProgram.setComputeUnitPrice({ microLamports: computeUnitPrice })]
+    : [];
+
+  const compile = (units: number) => new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: recentBlockhash.blockhash,
+      instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units }), ...priceInstructions, ...instructions],
+    }).compileToV0Message([lookupTable])
+  );
+
+  const { value } = await connection.simulateTransaction(compile(MAX_COMPUTE_UNIT_LIMIT), {
+    sigVerify: false,
+    replaceRecentBlockhash: false,
+    commitment: 'confirmed',
+  });
+  const logs = value.logs ?? [];
+
+  if (value.err) {
+    const reason = describeTransactionError(value.err, logs);
+    logger.warn('Transaction simulation failed', { reason, payer: payer.toBase58(), unitsConsumed: value.unitsConsumed });
+    throw new TransactionSimulationError(reason, { logs, unitsConsumed: value.unitsConsumed });
+  }
+
+  // Some RPCs report 0 when they do not measure usage; treat that like a missing value
+  const unitsConsumed = value.unitsConsumed || MAX_COMPUTE_UNIT_LIMIT;
+  const computeUnitLimit = Math.min(
+    MAX_COMPUTE_UNIT_LIMIT,
+    Math.max(MIN_COMPUTE_UNIT_LIMIT, Math.ceil(unitsConsumed * (1 + COMPUTE_UNIT_MARGIN)))
+  );
+  logger.debug('Transaction simulated', { unitsConsumed, computeUnitLimit, computeUnitPrice });
+
+  const transaction = compile(computeUnitLimit);
+  return {
+    transaction,
+    simulation: { unitsConsumed, computeUnitLimit, logs },
+    networkFee: {
+      computeUnitPrice,
+      fee: estimateNetworkFee(transaction.message.header.numRequiredSignatures, computeUnitLimit, computeUnitPrice),
+    },
+  };
+}
+
+/**
+ * Readable reason for a failed transaction, from its error and program logs
+ */
+export function describeTransactionError(err: TransactionError | string, logs: string[]): string {
+  // Anchor programs log "Error Code: X. Error Number: N. Error Message: reason."
+  for (const log of logs) {
+    const anchorError = log.match(/Error Code: (\w+)\. Error Number: (\d+)\. Error Message: (.*?)\.?$/);
+    if (anchorError) {
+      return `${anchorError[3]} (${anchorError[1]})`;
+    }
+  }
+
+  if (logs.some(log => /insufficient (lamports|funds)/i.test(log))) {
+    return 'Insufficient balance to cover the deposit and fees';
+  }
+
+  if (typeof err === 'string') {
+    return err === 'AccountNotFound' ? 'Fee payer account not found (the wallet has no SOL)' : err;
+  }
+
+  if ('InstructionError' in err) {
+    const [index, error] = (err as { InstructionError: [number, unknown] }).InstructionError;
+    if (error && typeof error === 'object' && 'Custom' in error) {
+      const code = (error as { Custom: number }).Custom;
+      return `Instruction ${index} failed with custom program error ${code} (0x${code.toString(16)})`;
+    }
+    return `Instruction ${index} failed: ${typeof error === 'string' ? error : JSON.stringify(error)}`;
+  }
+
+  return JSON.stringify(err);
+}
+
 /**
  * Build an unsigned SOL deposit transaction
  * The client will sign this locally
@@ -125,10 +301,16 @@ export async function buildUnsignedDepositTransaction(params: {
   signer: PublicKey;
   proof: ProofData;
   extData: ExtData;
-  depositFee?: number; // Fee in lamports to charge on deposit
+  depositFee?: BN; // Fee in lamports to charge on deposit
   feeRecipient?: PublicKey; // Wallet to receive the deposit fee
-}): Promise<{ transaction: VersionedTransaction; serializedProof: Buffer }> {
-  const { connection, signer, proof, extData, depositFee, feeRecipient } = params;
+  priorityFee?: PriorityFee;
+}): Promise<{
+  transaction: VersionedTransaction;
+  serializedProof: Buffer;
+  simulation: SimulationReport;
+  networkFee: NetworkFee;
+}> {
+  const { connection, signer, proof, extData, depositFee, feeRecipient, priorityFee } = params;
 
   const { treeAccount, treeTokenAccount, globalConfigAccount } = getProgramAccounts();
   const { nullifier0PDA, nullifier1PDA } = findNullifierPDAs(proof);
@@ -149,7 +331,7 @@ export async function buildUnsignedDepositTransaction(params: {
       { pubkey: treeTokenAccount, isSigner: false, isWritable: true },
       { pubkey: globalConfigAccount, isSigner: false, isWritable: false },
       { pubkey: recipientPlaceholder, isSigner: false, isWritable: true },
-      { pubkey: FEE_RECIPIENT, isSigner: false, isWritable: true },
+      { pubkey: config.feeRecipient, isSigner: false, isWritable: true },
       { pubkey: signer, isSigner: true, isWritable: true },
       { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
     ],
@@ -157,55 +339,53 @@ export async function buildUnsignedDepositTransaction(params: {
     data: serializedProof,
   });
 
-  const computeUnits = ComputeBudgetProgram.setComputeUnitLimit({ units: 1_000_000 });
-
-  // Build instructions array
-  const instructions = [computeUnits, depositInstruction];
+  // Build instructions array (the compute unit limit is added after simulation)
+  const instructions = [depositInstruction];
 
   // Add fee transfer instruction if deposit fee is specified
-  if (depositFee && depositFee > 0 && feeRecipient) {
+  if (depositFee && depositFee.gtn(0) && feeRecipient) {
     const feeTransferInstruction = SystemProgram.transfer({
       fromPubkey: signer,
       toPubkey: feeRecipient,
-      lamports: depositFee,
+      lamports: BigInt(depositFee.toString()),
     });
     instructions.push(feeTransferInstruction);
     logger.debug('Added deposit fee transfer', { 
-      fee: depositFee, 
+      fee: depositFee.toString(), 
       recipient: feeRecipient.toBase58() 
     });
   }
 
-  // Fetch ALT
-  const lookupTableAccount = await connection.getAddressLookupTable(config.altAddress);
-  if (!lookupTableAccount.value) {
-    throw new Error(`ALT not found at ${config.altAddress.toBase58()}`);
-  }
-
-  const recentBlockhash = await connection.getLatestBlockhash();
-
-  const messageV0 = new TransactionMessage({
-    payerKey: signer,
-    recentBlockhash: recentBlockhash.blockhash,
+  const { transaction, simulation, networkFee } = await compileSimulatedTransaction({
+    connection,
+    payer: signer,
     instructions,
-  }).compileToV0Message([lookupTableAccount.value]);
-
-  const transaction = new VersionedTransaction(messageV0);
+    priorityFee,
+  });
 
-  return { transaction, serializedProof };
+  return { transaction, serializedProof, simulation, networkFee };
 }
 
 /**
  * Build an unsigned SPL deposit transaction
+ * Token accounts are derived for the mint's own token program (SPL Token or Token-2022)
+ * The deposit fee goes in its own transaction (buildUnsignedSplDepositFeeTransaction)
  */
 export async function buildUnsignedSplDepositTransaction(params: {
   connection: Connection;
   signer: PublicKey;
   mintAddress: PublicKey;
+  mintProgram: MintProgram;
   proof: ProofData;
   extData: ExtData;
-}): Promise<{ transaction: VersionedTransaction; serializedProof: Buffer }> {
-  const { connection, signer, mintAddress, proof, extData } = params;
+  priorityFee?: PriorityFee;
+}): Promise<{
+  transaction: VersionedTransaction;
+  serializedProof: Buffer;
+  simulation: SimulationReport;
+  networkFee: NetworkFee;
+}> {
+  const { connection, signer, mintAddress, mintProgram, proof, extData, priorityFee } = params;
 
   const { globalConfigAccount } = getProgramAccounts();
   const treeAccount = getSplTreeAccount(mintAddress);
@@ -216,15 +396,15 @@ export async function buildUnsignedSplDepositTransaction(params: {
 
   // Token accounts
   const recipientPlaceholder = new PublicKey('AWexibGxNFKTa1b5R5MN4PJr9HWnWRwf8EW9g8cLx3dM');
-  const recipientAta = getAssociatedTokenAddressSync(mintAddress, recipientPlaceholder, true);
-  const feeRecipientTokenAccount = getAssociatedTokenAddressSync(mintAddress, FEE_RECIPIENT, true);
-  const signerTokenAccount = getAssociatedTokenAddressSync(mintAddress, signer);
+  const recipientAta = getTokenAccountAddress(mintAddress, recipientPlaceholder, mintProgram);
+  const feeRecipientTokenAccount = getTokenAccountAddress(mintAddress, config.feeRecipient, mintProgram);
+  const signerTokenAccount = getTokenAccountAddress(mintAddress, signer, mintProgram);
 
   const [globalConfigPda] = PublicKey.findProgramAddressSync(
     [Buffer.from('global_config')],
     config.programId
   );
-  const treeAta = getAssociatedTokenAddressSync(mintAddress, globalConfigPda, true);
+  const treeAta = getTokenAccountAddress(mintAddress, globalConfigPda, mintProgram);
 
   const depositInstruction = new TransactionInstruction({
     keys: [
@@ -241,7 +421,7 @@ export async function buildUnsignedSplDepositTransaction(params: {
       { pubkey: recipientAta, isSigner: false, isWritable: true },
       { pubkey: treeAta, isSigner: false, isWritable: true },
       { pubkey: feeRecipientTokenAccount, isSigner: false, isWritable: true },
-      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: mintProgram.programId, isSigner: false, isWritable: false },
       { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
       { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
     ],
@@ -249,24 +429,140 @@ export async function buildUnsignedSplDepositTransaction(params: {
     data: serializedProof,
   });
 
-  const computeUnits = ComputeBudgetProgram.setComputeUnitLimit({ units: 1_000_000 });
+  const { transaction, simulation, networkFee } = await compileSimulatedTransaction({
+    connection,
+    payer: signer,
+    instructions: [depositInstruction],
+    priorityFee,
+  });
 
-  const lookupTableAccount = await connection.getAddressLookupTable(config.altAddress);
-  if (!lookupTableAccount.value) {
-    throw new Error(`ALT not found at ${config.altAddress.toBase58()}`);
+  return { transaction, serializedProof, simulation, networkFee };
+}
+
+/**
+ * Build an unsigned token transfer of an SPL deposit's fee to feeRecipient
+ * It cannot ride along in the deposit transaction: the proof leaves too little
+ * room under the packet size for the token program, the recipient and its
+ * token account. The recipient's token account is created (by the signer) on
+ * its first fee.
+ */
+export async function buildUnsignedSplDepositFeeTransaction(params: {
+  connection: Connection;
+  signer: PublicKey;
+  mintAddress: PublicKey;
+  mintProgram: MintProgram;
+  depositFee: BN; // Fee in token base units
+  feeRecipient: PublicKey; // Wallet to receive the deposit fee
+  priorityFee?: PriorityFee;
+}): Promise<{ transaction: VersionedTransaction; simulation: SimulationReport; networkFee: NetworkFee }> {
+  const { connection, signer, mintAddress, mintProgram, depositFee, feeRecipient, priorityFee } = params;
+
+  const signerTokenAccount = getTokenAccountAddress(mintAddress, signer, mintProgram);
+  const feeAccount = getTokenAccountAddress(mintAddress, feeRecipient, mintProgram);
+
+  logger.debug('Building deposit fee transfer', {
+    fee: depositFee.toString(),
+    recipient: feeRecipient.toBase58(),
+  });
+
+  return compileSimulatedTransaction({
+    connection,
+    payer: signer,
+    instructions: [
+      createAssociatedTokenAccountIdempotentInstruction(signer, feeAccount, feeRecipient, mintAddress, mintProgram.programId),
+      createTransferCheckedInstruction(
+        signerTokenAccount,
+        mintAddress,
+        feeAccount,
+        signer,
+        BigInt(depositFee.toString()),
+        mintProgram.decimals,
+        [],
+        mintProgram.programId
+      ),
+    ],
+    priorityFee,
+  });
+}
+
+/**
+ * Build a withdrawal (or transfer) transaction from relayer withdraw params
+ * The payer takes the relayer's place: it signs and pays the transaction fee
+ * and nullifier rent (the proof fixes where the withdraw fee goes). Only the
+ * serialized proof and the recipient are taken from the params; every other
+ * account, and the ALT, is derived here so a client cannot swap them.
+ * Throws TransactionSimulationError when the program would reject it
+ */
+export async function buildWithdrawTransaction(params: {
+  connection: Connection;
+  payer: PublicKey;
+  withdrawParams: SubmitWithdrawParams;
+}): Promise<{ transaction: VersionedTransaction; simulation: SimulationReport }> {
+  const { connection, payer, withdrawParams: w } = params;
+
+  const data = Buffer.from(w.serializedProof, 'base64');
+  const decoded = decodeTransactInstruction(data);
+  if (!decoded || decoded.isSpl !== !!w.mintAddress) {
+    throw new ApiError('serializedProof is not a transact instruction for this token', 400, 'INVALID_WITHDRAW_PARAMS');
   }
 
-  const recentBlockhash = await connection.getLatestBlockhash();
+  const { treeAccount, treeTokenAccount, globalConfigAccount } = getProgramAccounts();
+  const proof = { inputNullifiers: decoded.inputNullifiers.map(nullifier => Array.from(nullifier)) } as ProofData;
+  const { nullifier0PDA, nullifier1PDA } = findNullifierPDAs(proof);
+  const { nullifier2PDA, nullifier3PDA } = findCrossCheckNullifierPDAs(proof);
+  const nullifierKeys = [
+    { pubkey: nullifier0PDA, isSigner: false, isWritable: true },
+    { pubkey: nullifier1PDA, isSigner: false, isWritable: true },
+    { pubkey: nullifier2PDA, isSigner: false, isWritable: false },
+    { pubkey: nullifier3PDA, isSigner: false, isWritable: false },
+  ];
+  const recipient = new PublicKey(w.recipient);
+
+  let keys;
+  if (w.mintAddress) {
+    const mint = new PublicKey(w.mintAddress);
+    const mintProgram = await getMintProgram(connection, mint);
+    keys = [
+      { pubkey: getSplTreeAccount(mint), isSigner: false, isWritable: true },
+      ...nullifierKeys,
+      { pubkey: globalConfigAccount, isSigner: false, isWritable: false },
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: getTokenAccountAddress(mint, payer, mintProgram), isSigner: false, isWritable: true },
+      { pubkey: recipient, isSigner: false, isWritable: true },
+      { pubkey: getTokenAccountAddress(mint, recipient, mintProgram), isSigner: false, isWritable: true },
+      { pubkey: getTokenAccountAddress(mint, globalConfigAccount, mintProgram), isSigner: false, isWritable: true },
+      { pubkey: getTokenAccountAddress(mint, config.feeRecipient, mintProgram), isSigner: false, isWritable: true },
+      { pubkey: mintProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: ASSOCIATED_TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ];
+  } else {
+    keys = [
+      { pubkey: treeAccount, isSigner: false, isWritable: true },
+      ...nullifierKeys,
+      { pubkey: treeTokenAccount, isSigner: false, isWritable: true },
+      { pubkey: globalConfigAccount, isSigner: false, isWritable: false },
+      { pubkey: recipient, isSigner: false, isWritable: true },
+      { pubkey: config.feeRecipient, isSigner: false, isWritable: true },
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+    ];
+  }
 
-  const messageV0 = new TransactionMessage({
-    payerKey: signer,
-    recentBlockhash: recentBlockhash.blockhash,
-    instructions: [computeUnits, depositInstruction],
-  }).compileToV0Message([lookupTableAccount.value]);
+  const withdrawInstruction = new TransactionInstruction({
+    keys,
+    programId: config.programId,
+    data,
+  });
 
-  const transaction = new VersionedTransaction(messageV0);
+  const { transaction, simulation } = await compileSimulatedTransaction({
+    connection,
+    payer,
+    instructions: [withdrawInstruction],
+  });
 
-  return { transaction, serializedProof };
+  return { transaction, simulation };
 }
 
 /**
@@ -0,0 +1,102 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { tokenRegistry } from './token-registry.js';
+import { logger } from '../middleware/logging.js';
+import { MerkleVerificationError } from '../utils/errors.js';
+import { getProgramAccounts, getSplTreeAccount, MERKLE_TREE_DEPTH } from '../utils/constants.js';
+import { parseToBytesArray } from './proof.js';
+import { getRelayerClient, TreeState } from './relayer.js';
+
+// Merkle tree account layout (after the 8-byte Anchor discriminator):
+// authority 32, next_index u64, subtrees [32; depth], root 32, root_history [32; 100], root_index u64
+const NEXT_INDEX_OFFSET = 8 + 32;
+const ROOT_OFFSET = NEXT_INDEX_OFFSET + 8 + 32 * MERKLE_TREE_DEPTH;
+const ROOT_HISTORY_OFFSET = ROOT_OFFSET + 32;
+const ROOT_HISTORY_SIZE = 100;
+const ROOT_INDEX_OFFSET = ROOT_HISTORY_OFFSET + 32 * ROOT_HISTORY_SIZE;
+const MIN_ACCOUNT_SIZE = ROOT_INDEX_OFFSET + 8;
+
+export interface TreeAccount {
+  address: PublicKey;
+  nextIndex: number;
+  root: Buffer;
+  // Recent roots the program still accepts (unused slots are skipped)
+  rootHistory: Buffer[];
+}
+
+/**
+ * Decode a merkle tree account
+ */
+export function decodeTreeAccount(address: PublicKey, data: Buffer): TreeAccount {
+  if (data.length < MIN_ACCOUNT_SIZE) {
+    throw new Error(`Merkle tree account ${address.toBase58()} is too small (${data.length} bytes)`);
+  }
+
+  const rootHistory: Buffer[] = [];
+  for (let i = 0; i < ROOT_HISTORY_SIZE; i++) {
+    const root = data.subarray(ROOT_HISTORY_OFFSET + 32 * i, ROOT_HISTORY_OFFSET + 32 * (i + 1));
+    if (root.some(byte => byte !== 0)) {
+      rootHistory.push(Buffer.from(root));
+    }
+  }
+
+  return {
+    address,
+    nextIndex: new BN(data.subarray(NEXT_INDEX_OFFSET, NEXT_INDEX_OFFSET + 8), 'le').toNumber(),
+    root: Buffer.from(data.subarray(ROOT_OFFSET, ROOT_OFFSET + 32)),
+    rootHistory,
+  };
+}
+
+/**
+ * Fetch and decode the merkle tree account of a token (undefined = SOL)
+ */
+export async function fetchTreeAccount(connection: Connection, tokenName?: string): Promise<TreeAccount> {
+  let address = getProgramAccounts().treeAccount;
+  if (tokenName) {
+    const token = tokenRegistry.getToken(tokenName);
+    if (!token) {
+      throw new Error(`Unknown token: ${tokenName}`);
+    }
+    address = getSplTreeAccount(token.mint);
+  }
+
+  const account = await connection.getAccountInfo(address);
+  if (!account) {
+    throw new Error(`Merkle tree account ${address.toBase58()} not found`);
+  }
+
+  return decodeTreeAccount(address, account.data);
+}
+
+/**
+ * Relayer tree state, checked against the on-chain root history
+ * The program only accepts proofs against a root in its history, so a stale
+ * or made-up root is rejected here instead of after proving
+ */
+export async function getVerifiedTreeState(connection: Connection, tokenName?: string): Promise<TreeState> {
+  const [state, account] = await Promise.all([
+    getRelayerClient().queryTreeState(tokenName),
+    fetchTreeAccount(connection, tokenName),
+  ]);
+
+  // Same encoding the root takes in the transact instruction the program compares
+  const rootBytes = Buffer.from(parseToBytesArray([state.root])[0]);
+
+  if (!account.rootHistory.some(root => root.equals(rootBytes))) {
+    logger.error('Relayer Merkle root is not in the on-chain root history', {
+      token: tokenName ?? 'sol',
+      relayerRoot: state.root,
+      relayerNextIndex: state.nextIndex,
+      onChainNextIndex: account.nextIndex,
+      treeAccount: account.address.toBase58(),
+    });
+    throw new MerkleVerificationError(
+      'Relayer Merkle root is not a recent on-chain root, refusing to prove against it',
+      'UNTRUSTED_MERKLE_ROOT',
+      { relayerNextIndex: state.nextIndex, onChainNextIndex: account.nextIndex }
+    );
+  }
+
+  return state;
+}
@@ -0,0 +1,180 @@
+import type * as hasher from '@lightprotocol/hasher.rs';
+import { logger } from '../middleware/logging.js';
+import { MerkleVerificationError } from '../utils/errors.js';
+import { MERKLE_TREE_DEPTH } from '../utils/constants.js';
+import { computeRootFromPath, createMerkleTree, MerkleTree } from './merkle.js';
+import { getRelayerClient, MerkleProof, TreeState } from './relayer.js';
+import { utxoIndex } from './utxo-index.js';
+import { Utxo } from './models/utxo.js';
+
+const INSERT_CHUNK_SIZE = 1024;
+
+export interface TreeCheck {
+  checkedAt: string;
+  leaves: number;
+  localRoot: string;
+  relayerRoot: string;
+  relayerNextIndex: number;
+  matches: boolean;
+}
+
+/**
+ * Local copy of each pool's Merkle tree, built from the commitments in the
+ * UTXO index
+ * Paths are served locally once the local root matches the relayer's, so we
+ * no longer take the relayer's word for them. When the leaves are missing or
+ * the roots diverge, proofs fall back to the relayer and the divergence is
+ * logged and kept for /v1/health. Either way every path is hashed up to the
+ * root before it is handed to the prover.
+ */
+export class TreeMirror {
+  private trees = new Map<string, MerkleTree>();
+  private checks = new Map<string, TreeCheck>();
+  // Tokens whose tree is being (re)built in the background
+  private building = new Set<string>();
+
+  /**
+   * Merkle paths of notes of a token (undefined = SOL) under the tree state being proved against
+   * Throws MerkleVerificationError if a path does not hash to state.root
+   */
+  async getMerkleProofs(
+    utxos: Utxo[],
+    state: TreeState,
+    lightWasm: hasher.LightWasm,
+    tokenName?: string
+  ): Promise<MerkleProof[]> {
+    const commitments = await Promise.all(utxos.map(utxo => utxo.getCommitment()));
+    const local = await this.getLocalProofs(commitments, state, lightWasm, tokenName);
+
+    const proofs = await Promise.all(
+      commitments.map((commitment, i) => local?.[i] ?? getRelayerClient().fetchMerkleProof(commitment, tokenName))
+    );
+
+    // The circuit walks the path by the note's index, so check it the same way
+    proofs.forEach((proof, i) => {
+      const { index } = utxos[i];
+      if (
+        proof.pathElements.length !== MERKLE_TREE_DEPTH ||
+        computeRootFromPath(lightWasm, commitments[i], index, proof.pathElements) !== state.root
+      ) {
+        logger.error('Merkle path does not lead to the tree root', { token: tokenName ?? 'sol', index, root: state.root });
+        throw new MerkleVerificationError(
+          `Merkle path of note ${index} does not lead to the current tree root`,
+          'INVALID_MERKLE_PATH',
+          { index }
+        );
+      }
+    });
+
+    return proofs;
+  }
+
+  /**
+   * Latest root comparison per token
+   */
+  getChecks(): Record<string, TreeCheck> {
+    return Object.fromEntries(this.checks);
+  }
+
+  /**
+   * Paths from the local tree (null for commitments it does not hold), or null
+   * if the tree cannot be built or disagrees with the relayer's state
+   */
+  private async getLocalProofs(
+    commitments: string[],
+    state: TreeState,
+    lightWasm: hasher.LightWasm,
+    tokenName?: string
+  ): Promise<(MerkleProof | null)[] | null> {
+    const key = tokenName ?? 'sol';
+
+    const { root, nextIndex } = state;
+
+    // The index can trail the state by a leaf that just landed, so sync once more on a miss
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const leaves = await utxoIndex.getCommitments(tokenName);
+      if (!leaves) {
+        logger.debug('Relayer does not send commitments, using relayer Merkle proofs', { token: key });
+        return null;
+      }
+
+      const tree = this.extendTree(key, leaves, lightWasm);
+      if (!tree) {
+        logger.debug('Local Merkle tree is still being built, using relayer Merkle proofs', { token: key });
+        return null;
+      }
+
+      if (tree.size < nextIndex) {
+        continue;
+      }
+      if (tree.size > nextIndex) {
+        break;
+      }
+
+      const check: TreeCheck = {
+        checkedAt: new Date().toISOString(),
+        leaves: tree.size,
+        localRoot: tree.root(),
+        relayerRoot: root,
+        relayerNextIndex: nextIndex,
+        matches: tree.root() === root,
+      };
+      this.checks.set(key, check);
+
+      if (!check.matches) {
+        logger.error('Local Merkle tree diverges from relayer, using relayer Merkle proofs', { token: key, ...check });
+        return null;
+      }
+
+      // Read the paths before yielding, later inserts would move them off the checked root
+      return commitments.map(commitment => {
+        const index = tree.indexOf(commitment);
+        return index === -1 ? null : tree.path(index);
+      });
+    }
+
+    logger.warn('Local Merkle tree is out of step with the relayer, using relayer Merkle proofs', { token: key });
+    return null;
+  }
+
+  /**
+   * Bring the cached tree up to date with leaves
+   * Small gaps are filled in place; a missing, reset or far-behind tree is
+   * built in the background and null is returned until it is ready
+   */
+  private extendTree(key: string, leaves: string[], lightWasm: hasher.LightWasm): MerkleTree | null {
+    if (this.building.has(key)) {
+      return null;
+    }
+
+    const tree = this.trees.get(key);
+    if (tree && tree.size <= leaves.length && leaves.length - tree.size <= INSERT_CHUNK_SIZE) {
+      tree.bulkInsert(leaves.slice(tree.size));
+      return tree;
+    }
+
+    this.building.add(key);
+    this.buildTree(key, leaves, lightWasm)
+      .catch(error => logger.error('Local Merkle tree build failed', { token: key, error: error.message, stack: error.stack }))
+      .finally(() => this.building.delete(key));
+    return null;
+  }
+
+  private async buildTree(key: string, leaves: string[], lightWasm: hasher.LightWasm): Promise<void> {
+    const start = Date.now();
+    const tree = createMerkleTree(lightWasm);
+
+    // Hashing a whole pool takes a while, so yield to requests between chunks
+    // (leaves is the index's live array, so entries synced meanwhile are included)
+    while (tree.size < leaves.length) {
+      tree.bulkInsert(leaves.slice(tree.size, tree.size + INSERT_CHUNK_SIZE));
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    this.trees.set(key, tree);
+    logger.info('Local Merkle tree built', { token: key, leaves: tree.size, duration: `${Date.now() - start}ms` });
+  }
+}
+
+// Singleton instance
+export const treeMirror = new TreeMirror();
@@ -0,0 +1,178 @@
+import { appendFile, mkdir, readFile, rm, truncate, writeFile } from 'fs/promises';
+import path from 'path';
+import { config } from '../config/env.js';
+import { logger } from '../middleware/logging.js';
+import { FETCH_UTXOS_GROUP_SIZE } from '../utils/constants.js';
+import { getRelayerClient } from './relayer.js';
+
+// Bumped when the line format changes; files of other versions are discarded and rebuilt
+// (v1 lines held only the output, so their commitments would read as missing forever)
+const INDEX_FORMAT_VERSION = 2;
+
+/**
+ * A token's pool in relayer range order
+ * commitments[i] is '' when the relayer did not send the leaf for outputs[i]
+ */
+interface PoolEntries {
+  outputs: string[];
+  commitments: string[];
+}
+
+/**
+ * Local copy of every encrypted output in a token's pool
+ * Outputs are kept in relayer range order (one "output<TAB>commitment" per
+ * line in <token>.v2.outputs) so each sync only asks the relayer for entries
+ * past the local count. Decryption still happens per request since it needs
+ * the user's keys.
+ */
+export class UtxoIndex {
+  private entries = new Map<string, PoolEntries>();
+  private syncs = new Map<string, Promise<PoolEntries>>();
+  // Tree index of each output, resolved lazily (outputs never move)
+  private treeIndices = new Map<string, number>();
+
+  constructor(private readonly dir: string) {}
+
+  /**
+   * All encrypted outputs of a token (undefined = SOL), synced with the relayer first
+   * Concurrent callers share one sync
+   */
+  async getEncryptedOutputs(tokenName?: string): Promise<string[]> {
+    return (await this.synced(tokenName)).outputs;
+  }
+
+  /**
+   * All commitments (tree leaves) of a token in insertion order, synced first
+   * Returns null if the relayer did not send every leaf
+   */
+  async getCommitments(tokenName?: string): Promise<string[] | null> {
+    const { commitments } = await this.synced(tokenName);
+    return commitments.includes('') ? null : commitments;
+  }
+
+  /**
+   * Tree indices of outputs (in order), asking the relayer only for unknown ones
+   */
+  async getTreeIndices(encryptedOutputs: string[]): Promise<(number | undefined)[]> {
+    const unknown = encryptedOutputs.filter(o => !this.treeIndices.has(o));
+
+    if (unknown.length > 0) {
+      const { indices } = await getRelayerClient().fetchUtxoIndices(unknown);
+      unknown.forEach((output, i) => {
+        if (typeof indices[i] === 'number') {
+          this.treeIndices.set(output, indices[i]);
+        }
+      });
+    }
+
+    return encryptedOutputs.map(o => this.treeIndices.get(o));
+  }
+
+  /**
+   * Concurrent callers share one sync
+   */
+  private synced(tokenName?: string): Promise<PoolEntries> {
+    const key = tokenName ?? 'sol';
+
+    let sync = this.syncs.get(key);
+    if (!sync) {
+      sync = this.sync(key, tokenName).finally(() => this.syncs.delete(key));
+      this.syncs.set(key, sync);
+    }
+
+    return sync;
+  }
+
+  private async sync(key: string, tokenName?: string): Promise<PoolEntries> {
+    let entries = await this.load(key);
+    const file = this.filePath(key);
+    const before = entries.outputs.length;
+
+    while (true) {
+      const start = entries.outputs.length;
+      const data = await getRelayerClient().fetchUtxoRange(start, start + FETCH_UTXOS_GROUP_SIZE, tokenName);
+
+      // The relayer has fewer outputs than we do: it was reset or swapped, start over
+      if (typeof data.total === 'number' && data.total < start) {
+        logger.warn('UTXO index ahead of relayer, rebuilding', { token: key, local: start, relayer: data.total });
+        // Swap in fresh arrays so callers still reading the old ones are unaffected
+        entries = { outputs: [], commitments: [] };
+        this.entries.set(key, entries);
+        await writeFile(file, '');
+        continue;
+      }
+
+      if (data.encrypted_outputs.length === 0) {
+        break;
+      }
+
+      // Empty entries are kept so positions stay aligned with the relayer
+      const outputs = data.encrypted_outputs.map(o => o ?? '');
+      const commitments = outputs.map((_, i) => data.commitments?.[i] ?? '');
+      await appendFile(file, outputs.map((o, i) => `${o}\t${commitments[i]}\n`).join(''));
+      entries.outputs.push(...outputs);
+      entries.commitments.push(...commitments);
+
+      if (!data.hasMore) {
+        break;
+      }
+    }
+
+    const total = entries.outputs.length;
+    if (total > before) {
+      logger.debug('UTXO index synced', { token: key, added: total - before, total });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Entries of a token, read from disk on first use
+   */
+  private async load(key: string): Promise<PoolEntries> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    await mkdir(this.dir, { recursive: true });
+    const file = this.filePath(key);
+    // Unversioned file from before the commitment column
+    await rm(path.join(this.dir, `${key}.outputs`), { force: true });
+
+    let content = '';
+    try {
+      content = await readFile(file, 'utf-8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    // Drop a partial last line left by an interrupted append
+    const complete = content.lastIndexOf('\n') + 1;
+    if (complete < content.length) {
+      await truncate(file, Buffer.byteLength(content.slice(0, complete)));
+    }
+
+    const entries: PoolEntries = { outputs: [], commitments: [] };
+    if (complete > 0) {
+      for (const line of content.slice(0, complete - 1).split('\n')) {
+        const [output, commitment = ''] = line.split('\t');
+        entries.outputs.push(output);
+        entries.commitments.push(commitment);
+      }
+    }
+    logger.debug('UTXO index loaded', { token: key, outputs: entries.outputs.length });
+
+    this.entries.set(key, entries);
+    return entries;
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.dir, `${key}.v${INDEX_FORMAT_VERSION}.outputs`);
+  }
+}
+
+// Singleton instance
+export const utxoIndex = new UtxoIndex(config.utxoIndexDir);
@@ -4,16 +4,28 @@ import { WasmFactory } from '@lightprotocol/hasher.rs';
 import { EncryptionService } from './encryption.js';
 import { Utxo } from './models/utxo.js';
 import { Keypair as UtxoKeypair } from './models/keypair.js';
-import { fetchUtxoRange, fetchUtxoIndices } from './relayer.js';
+import { utxoIndex } from './utxo-index.js';
 import { config } from '../config/env.js';
 import { logger } from '../middleware/logging.js';
-import { FETCH_UTXOS_GROUP_SIZE } from '../utils/constants.js';
 
 // @ts-ignore
 import * as ffjavascript from 'ffjavascript';
 const utils = ffjavascript.utils as any;
 const { unstringifyBigInts, leInt2Buff } = utils;
 
+// getMultipleAccountsInfo accepts at most this many accounts
+const ACCOUNT_BATCH_SIZE = 100;
+
+/**
+ * A decrypted note together with its spent state
+ * spentBy is the nullifier PDA that marks it spent (null while unspent)
+ */
+export interface ScannedUtxo {
+  utxo: Utxo;
+  encryptedOutput: string;
+  spentBy: PublicKey | null;
+}
+
 /**
  * Fetch and decrypt all UTXOs for a user
  * Server needs the signature to derive encryption keys
@@ -24,49 +36,46 @@ export async function getUtxos(params: {
   encryptionService: EncryptionService;
   tokenName?: string;
 }): Promise<Utxo[]> {
-  const { publicKey, connection, encryptionService, tokenName } = params;
-  const lightWasm = await WasmFactory.getInstance();
-
-  const validUtxos: Utxo[] = [];
-  let offset = 0;
+  const scanned = await scanUtxos(params);
+  return scanned.filter(s => !s.spentBy).map(s => s.utxo);
+}
 
-  while (true) {
-    const end = offset + FETCH_UTXOS_GROUP_SIZE;
-    logger.debug('Fetching UTXO range', { offset, end, tokenName });
+/**
+ * Fetch and decrypt every note a user owns, spent or not
+ * Zero-amount notes are skipped unless includeZero is set
+ */
+export async function scanUtxos(params: {
+  publicKey: PublicKey;
+  connection: Connection;
+  encryptionService: EncryptionService;
+  tokenName?: string;
+  includeZero?: boolean;
+}): Promise<ScannedUtxo[]> {
+  const { connection, encryptionService, tokenName, includeZero } = params;
+  const lightWasm = await WasmFactory.getInstance();
 
-    const data = await fetchUtxoRange(offset, end, tokenName);
-    const encryptedOutputs = data.encrypted_outputs;
+  const encryptedOutputs = await utxoIndex.getEncryptedOutputs(tokenName);
+  logger.debug('Scanning UTXO index', { outputs: encryptedOutputs.length, tokenName });
 
-    if (encryptedOutputs.length === 0) {
-      break;
-    }
+  // Decrypt UTXOs
+  const decrypted = await decryptOutputs(encryptedOutputs, encryptionService, lightWasm);
 
-    // Decrypt UTXOs
-    const decrypted = await decryptOutputs(encryptedOutputs, encryptionService, lightWasm);
-    
-    // Filter non-zero UTXOs
-    const nonZeroUtxos = decrypted.filter(u => u.utxo && u.utxo.amount.gt(new BN(0)));
-
-    if (nonZeroUtxos.length > 0) {
-      // Check which are spent
-      const utxosToCheck = nonZeroUtxos.map(u => u.utxo!);
-      const spentFlags = await areUtxosSpent(connection, utxosToCheck);
-
-      for (let i = 0; i < nonZeroUtxos.length; i++) {
-        if (!spentFlags[i]) {
-          validUtxos.push(nonZeroUtxos[i].utxo!);
-        }
-      }
-    }
+  const owned = decrypted.filter(u => includeZero || u.utxo.amount.gt(new BN(0)));
 
-    if (!data.hasMore) {
-      break;
-    }
+  // Zero-amount notes are never spent, only check the rest
+  const toCheck = owned.filter(u => u.utxo.amount.gt(new BN(0)));
+  const spentBy = toCheck.length > 0
+    ? await findSpentNullifierPDAs(connection, toCheck.map(u => u.utxo))
+    : [];
 
-    offset += encryptedOutputs.length;
-  }
-
-  return validUtxos;
+  return owned.map(entry => {
+    const checkIndex = toCheck.indexOf(entry);
+    return {
+      utxo: entry.utxo,
+      encryptedOutput: entry.encryptedOutput,
+      spentBy: checkIndex === -1 ? null : spentBy[checkIndex],
+    };
+  });
 }
 
 /**
@@ -76,8 +85,8 @@ async function decryptOutputs(
   encryptedOutputs: string[],
   encryptionService: EncryptionService,
   lightWasm: any
-): Promise<{ utxo?: Utxo; encryptedOutput: string }[]> {
-  const results: { utxo?: Utxo; encryptedOutput: string }[] = [];
+): Promise<{ utxo: Utxo; encryptedOutput: string }[]> {
+  const results: { utxo: Utxo; encryptedOutput: string }[] = [];
 
   for (const encryptedOutput of encryptedOutputs) {
     if (!encryptedOutput) {
@@ -94,12 +103,11 @@ async function decryptOutputs(
 
   // Update indices for successfully decrypted UTXOs
   if (results.length > 0) {
-    const encryptedOutputsList = results.map(r => r.encryptedOutput);
-    const { indices } = await fetchUtxoIndices(encryptedOutputsList);
+    const indices = await utxoIndex.getTreeIndices(results.map(r => r.encryptedOutput));
 
     for (let i = 0; i < results.length; i++) {
-      if (results[i].utxo && typeof indices[i] === 'number') {
-        results[i].utxo!.index = indices[i];
+      if (typeof indices[i] === 'number') {
+        results[i].utxo.index = indices[i]!;
       }
     }
   }
@@ -108,49 +116,70 @@ async function decryptOutputs(
 }
 
 /**
- * Check if UTXOs are spent (batch)
+ * Derive the two nullifier PDAs a UTXO can be spent under
+ * (input slot 0 creates nullifier0, slot 1 creates nullifier1)
  */
-export async function areUtxosSpent(connection: Connection, utxos: Utxo[]): Promise<boolean[]> {
+export async function getUtxoNullifierPDAs(utxo: Utxo): Promise<{ nullifier0PDA: PublicKey; nullifier1PDA: PublicKey }> {
   const programId = config.programId;
+  const nullifier = await utxo.getNullifier();
+
+  const nullifierBytes = Array.from(
+    leInt2Buff(unstringifyBigInts(nullifier), 32)
+  ).reverse() as number[];
+
+  const [nullifier0PDA] = PublicKey.findProgramAddressSync(
+    [Buffer.from('nullifier0'), Buffer.from(nullifierBytes)],
+    programId
+  );
+  const [nullifier1PDA] = PublicKey.findProgramAddressSync(
+    [Buffer.from('nullifier1'), Buffer.from(nullifierBytes)],
+    programId
+  );
+
+  return { nullifier0PDA, nullifier1PDA };
+}
+
+/**
+ * Find the nullifier PDA that marks each UTXO spent (batch)
+ * Returns null for unspent UTXOs
+ */
+export async function findSpentNullifierPDAs(connection: Connection, utxos: Utxo[]): Promise<(PublicKey | null)[]> {
   const allPDAs: { utxoIndex: number; pda: PublicKey }[] = [];
 
   for (let i = 0; i < utxos.length; i++) {
-    const utxo = utxos[i];
-    const nullifier = await utxo.getNullifier();
-
-    const nullifierBytes = Array.from(
-      leInt2Buff(unstringifyBigInts(nullifier), 32)
-    ).reverse() as number[];
-
-    const [nullifier0PDA] = PublicKey.findProgramAddressSync(
-      [Buffer.from('nullifier0'), Buffer.from(nullifierBytes)],
-      programId
-    );
-    const [nullifier1PDA] = PublicKey.findProgramAddressSync(
-      [Buffer.from('nullifier1'), Buffer.from(nullifierBytes)],
-      programId
-    );
-
+    const { nullifier0PDA, nullifier1PDA } = await getUtxoNullifierPDAs(utxos[i]);
     allPDAs.push({ utxoIndex: i, pda: nullifier0PDA });
     allPDAs.push({ utxoIndex: i, pda: nullifier1PDA });
   }
 
-  const results = await connection.getMultipleAccountsInfo(allPDAs.map(x => x.pda));
-  const spentFlags = new Array(utxos.length).fill(false);
+  const spentBy: (PublicKey | null)[] = new Array(utxos.length).fill(null);
 
-  for (let i = 0; i < allPDAs.length; i++) {
-    if (results[i] !== null) {
-      spentFlags[allPDAs[i].utxoIndex] = true;
-    }
+  for (let i = 0; i < allPDAs.length; i += ACCOUNT_BATCH_SIZE) {
+    const batch = allPDAs.slice(i, i + ACCOUNT_BATCH_SIZE);
+    const results = await connection.getMultipleAccountsInfo(batch.map(x => x.pda));
+
+    results.forEach((account, j) => {
+      if (account !== null) {
+        spentBy[batch[j].utxoIndex] = batch[j].pda;
+      }
+    });
   }
 
-  return spentFlags;
+  return spentBy;
+}
+
+/**
+ * Check if UTXOs are spent (batch)
+ */
+export async function areUtxosSpent(connection: Connection, utxos: Utxo[]): Promise<boolean[]> {
+  const spentBy = await findSpentNullifierPDAs(connection, utxos);
+  return spentBy.map(pda => pda !== null);
 }
 
 /**
  * Calculate total balance from UTXOs
  */
-export function getBalanceFromUtxos(utxos: Utxo[]): { lamports: number } {
+export function getBalanceFromUtxos(utxos: Utxo[]): { baseUnits: BN } {
   const totalBalance = utxos.reduce((sum, utxo) => sum.add(utxo.amount), new BN(0));
-  return { lamports: totalBalance.toNumber() };
+  return { baseUnits: totalBalance };
 }
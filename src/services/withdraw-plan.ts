@@ -0,0 +1,97 @@
+import BN from 'bn.js';
+import { Utxo } from './models/utxo.js';
+
+export interface WithdrawPlanStep {
+  kind: 'consolidate' | 'withdraw';
+  // Tree indices of existing notes consumed by this step
+  // Notes merged by earlier steps are spent too, but have no index yet
+  inputIndices: number[];
+  fee: string; // Base units
+}
+
+// Transfers are planned like withdrawals, ending in the transfer instead
+export interface TransferPlanStep extends Omit<WithdrawPlanStep, 'kind'> {
+  kind: 'consolidate' | 'transfer';
+}
+
+export interface WithdrawPlan {
+  steps: WithdrawPlanStep[];
+  // Notes that will be spent, sorted by amount descending
+  notes: Utxo[];
+  consolidationFees: BN;
+}
+
+/**
+ * Plan a withdrawal across as many notes as needed
+ *
+ * The circuit only takes two inputs, so when the amount needs k > 2 notes we
+ * merge them with k - 2 consolidation transactions (2-in/2-out, extAmount 0),
+ * each paying consolidationFee, before the final withdrawal. The steps are
+ * worked out with nextWithdrawStep, the function prepare runs on the live notes.
+ */
+export function planWithdrawal(params: {
+  utxos: Utxo[];
+  amount: BN; // Gross amount that must leave the final withdrawal's inputs
+  consolidationFee: BN;
+  withdrawFee: BN;
+}): WithdrawPlan {
+  const { utxos, amount, consolidationFee, withdrawFee } = params;
+  const sorted = utxos
+    .filter(u => u.amount.gt(new BN(0)))
+    .sort((a, b) => b.amount.cmp(a.amount));
+
+  let total = new BN(0);
+  for (let count = 1; count <= sorted.length; count++) {
+    total = total.add(sorted[count - 1].amount);
+    const consolidations = Math.max(0, count - 2);
+    const available = total.sub(consolidationFee.muln(consolidations));
+
+    if (available.gte(amount)) {
+      const notes = sorted.slice(0, count);
+      return {
+        steps: buildSteps(notes, consolidationFee, withdrawFee.toString()),
+        notes,
+        consolidationFees: consolidationFee.muln(consolidations),
+      };
+    }
+  }
+
+  throw new Error('Insufficient balance');
+}
+
+/**
+ * Next transaction of a withdrawal, from the notes it still has to spend
+ * (sorted by amount descending): the two smallest are merged while more than
+ * two remain, then the rest is withdrawn
+ */
+export function nextWithdrawStep<T extends { amount: BN }>(notes: T[]): {
+  kind: WithdrawPlanStep['kind'];
+  inputs: T[];
+} {
+  return notes.length > 2
+    ? { kind: 'consolidate', inputs: notes.slice(-2) }
+    : { kind: 'withdraw', inputs: notes };
+}
+
+/**
+ * Step through nextWithdrawStep, standing in for each merged note
+ */
+function buildSteps(notes: Utxo[], consolidationFee: BN, withdrawFee: string): WithdrawPlanStep[] {
+  const steps: WithdrawPlanStep[] = [];
+  // Merged notes have no tree index until their step is submitted
+  let remaining: { amount: BN; index?: number }[] = notes.map(({ amount, index }) => ({ amount, index }));
+
+  while (true) {
+    const { kind, inputs } = nextWithdrawStep(remaining);
+    const inputIndices = inputs.flatMap(({ index }) => (index === undefined ? [] : [index]));
+
+    if (kind === 'withdraw') {
+      steps.push({ kind, inputIndices, fee: withdrawFee });
+      return steps;
+    }
+
+    steps.push({ kind, inputIndices, fee: consolidationFee.toString() });
+    const merged = { amount: inputs[0].amount.add(inputs[1].amount).sub(consolidationFee) };
+    remaining = [...remaining.slice(0, -2), merged].sort((a, b) => b.amount.cmp(a.amount));
+  }
+}
@@ -0,0 +1,124 @@
+import BN from 'bn.js';
+import { TokenConfig } from '../config/env.js';
+import { ApiError } from './errors.js';
+
+/**
+ * Amounts travel as decimal strings so nothing passes through a JS number:
+ * `amount` is in base units (lamports, micro-USDC, ...) and `uiAmount` in
+ * whole tokens using the token's decimals.
+ */
+
+const BASE_UNITS_PATTERN = /^\d+$/;
+const UI_AMOUNT_PATTERN = /^(\d+)(?:\.(\d+))?$/;
+const RATE_PRECISION = 1_000_000_000;
+// The relayer takes extAmount and fee as JSON numbers, so larger amounts could
+// only fail after the proof was generated
+const MAX_AMOUNT = new BN(Number.MAX_SAFE_INTEGER);
+
+/**
+ * Parse a base-unit amount ("1500000000")
+ */
+export function parseBaseUnits(value: unknown, field: string = 'amount'): BN {
+  if (typeof value !== 'string' || !BASE_UNITS_PATTERN.test(value)) {
+    throw new ApiError(`${field} must be a base-unit integer string`, 400, 'INVALID_AMOUNT', { field });
+  }
+  return new BN(value, 10);
+}
+
+/**
+ * Parse a UI amount ("1.5") into base units
+ * Rejects more fractional digits than the token has instead of truncating
+ */
+export function parseUiAmount(value: unknown, decimals: number, field: string = 'uiAmount'): BN {
+  const match = typeof value === 'string' ? UI_AMOUNT_PATTERN.exec(value) : null;
+  if (!match) {
+    throw new ApiError(`${field} must be a decimal string`, 400, 'INVALID_AMOUNT', { field });
+  }
+
+  const [, whole, fraction = ''] = match;
+  if (fraction.length > decimals) {
+    throw new ApiError(
+      `${field} has more than ${decimals} decimal places`,
+      400,
+      'AMOUNT_PRECISION',
+      { field, decimals }
+    );
+  }
+
+  return new BN(whole + fraction.padEnd(decimals, '0'), 10);
+}
+
+/**
+ * Read the amount of a request body, given either as `amount` (base units)
+ * or `uiAmount` (whole tokens). The amount must be positive and at most
+ * 2^53 - 1 base units.
+ */
+export function readAmount(body: { amount?: unknown; uiAmount?: unknown }, tokenConfig: TokenConfig): BN {
+  const { amount, uiAmount } = body;
+
+  if ((amount === undefined) === (uiAmount === undefined)) {
+    throw new ApiError('Provide exactly one of amount (base units) or uiAmount', 400, 'INVALID_AMOUNT');
+  }
+
+  const baseUnits = amount !== undefined
+    ? parseBaseUnits(amount)
+    : parseUiAmount(uiAmount, tokenConfig.decimals);
+
+  if (baseUnits.isZero()) {
+    throw new ApiError('Amount must be positive', 400, 'INVALID_AMOUNT');
+  }
+  if (baseUnits.gt(MAX_AMOUNT)) {
+    throw new ApiError(
+      `Amount must be at most ${MAX_AMOUNT.toString(10)} base units`,
+      400,
+      'AMOUNT_TOO_LARGE',
+      { maxAmount: MAX_AMOUNT.toString(10) }
+    );
+  }
+
+  return baseUnits;
+}
+
+/**
+ * Format base units as a UI amount string without trailing zeros ("1.5")
+ */
+export function formatUiAmount(baseUnits: BN, decimals: number): string {
+  const negative = baseUnits.isNeg();
+  const digits = baseUnits.abs().toString(10).padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Response fields for an amount: { [key]: base units, [uiKey]: whole tokens }
+ * e.g. amountFields('fee', fee, 9) -> { fee: '5000000', uiFee: '0.005' }
+ */
+export function amountFields<K extends string>(
+  key: K,
+  baseUnits: BN,
+  decimals: number
+): Record<K | `ui${Capitalize<K>}`, string> {
+  const uiKey = `ui${key.charAt(0).toUpperCase()}${key.slice(1)}`;
+  return {
+    [key]: baseUnits.toString(10),
+    [uiKey]: formatUiAmount(baseUnits, decimals),
+  } as Record<K | `ui${Capitalize<K>}`, string>;
+}
+
+/**
+ * Convert a whole-token amount given as a JS number (e.g. relayer fee config)
+ * Only for small configured values; user input goes through parseUiAmount
+ */
+export function tokensToBaseUnits(tokens: number, decimals: number): BN {
+  const [whole, fraction = ''] = tokens.toFixed(decimals).split('.');
+  return new BN(whole + fraction, 10);
+}
+
+/**
+ * Multiply base units by a fractional rate, rounding down
+ */
+export function applyRate(baseUnits: BN, rate: number): BN {
+  return baseUnits.mul(new BN(Math.round(rate * RATE_PRECISION))).div(new BN(RATE_PRECISION));
+}
@@ -1,3 +1,5 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
 import { config } from '../config/env.js';
@@ -10,9 +12,6 @@ export const FIELD_SIZE = new BN(
 // Merkle tree depth (same as SDK)
 export const MERKLE_TREE_DEPTH = 26;
 
-// Fee recipient (same as SDK)
-export const FEE_RECIPIENT = new PublicKey('AWexibGxNFKTa1b5R5MN4PJr9HWnWRwf8EW9g8cLx3dM');
-
 // Transaction instruction discriminators (same as SDK)
 export const TRANSACT_IX_DISCRIMINATOR = Buffer.from([217, 149, 130, 143, 221, 52, 252, 119]);
 export const TRANSACT_SPL_IX_DISCRIMINATOR = Buffer.from([154, 66, 244, 204, 78, 225, 163, 151]);
@@ -57,7 +56,19 @@ export function getSplTreeAccount(mintAddress: PublicKey) {
   return treeAccount;
 }
 
-// Path to ZK circuit files
+// Get mint address field for circuit (matches SDK)
+// SOL uses the system program string, SPL tokens use the first 31 bytes of the mint
+export function getMintAddressField(mint: PublicKey): string {
+  const mintStr = mint.toString();
+
+  if (mintStr === '11111111111111111111111111111112') {
+    return mintStr;
+  }
+
+  return new BN(mint.toBytes().slice(0, 31), 'be').toString();
+}
+
+// Path to ZK circuit files (the network profile's circuitPath, relative to the project root)
 export function getCircuitBasePath(): string {
-  return new URL('../../circuit2/transaction2', import.meta.url).pathname;
+  return path.resolve(fileURLToPath(new URL('../..', import.meta.url)), config.circuitPath);
 }
@@ -0,0 +1,105 @@
+import { Response } from 'express';
+
+/**
+ * Error with an HTTP status and a stable machine-readable code
+ * Routes turn these into `{ error, code, details }` responses via sendError
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: string,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The prover queue is full - clients should back off for retryAfterSeconds
+ */
+export class ProverBusyError extends ApiError {
+  constructor(readonly retryAfterSeconds: number) {
+    super('Prover is busy, retry later', 429, 'PROVER_BUSY', { retryAfterSeconds });
+  }
+}
+
+/**
+ * Too many self-relayed withdrawals this minute - the operator's SOL is rationed
+ */
+export class SelfRelayRateLimitError extends ApiError {
+  constructor(readonly retryAfterSeconds: number) {
+    super('Too many self-relayed withdrawals, retry later', 429, 'SELF_RELAY_RATE_LIMITED', { retryAfterSeconds });
+  }
+}
+
+export class ProofTimeoutError extends ApiError {
+  constructor(timeoutMs: number) {
+    super(`Proof generation timed out after ${timeoutMs}ms`, 504, 'PROOF_TIMEOUT');
+  }
+}
+
+/**
+ * Relayer Merkle data that does not match the chain (stale root, bad path)
+ * Raised before proving so the client gets a clear error instead of a failed proof
+ */
+export class MerkleVerificationError extends ApiError {
+  constructor(message: string, code: 'UNTRUSTED_MERKLE_ROOT' | 'INVALID_MERKLE_PATH', details?: Record<string, unknown>) {
+    super(message, 502, code, details);
+  }
+}
+
+/**
+ * A prepared transaction failed simulation, so the client would sign a
+ * transaction the chain rejects
+ */
+export class TransactionSimulationError extends ApiError {
+  constructor(reason: string, details: { logs: string[]; unitsConsumed?: number }) {
+    super(`Transaction simulation failed: ${reason}`, 422, 'SIMULATION_FAILED', { reason, ...details });
+  }
+}
+
+/**
+ * A public input of a generated proof that differs from what the server asked for
+ */
+export interface PublicInputMismatch {
+  input: string;
+  expected: string;
+  actual: string;
+}
+
+/**
+ * A generated proof failed verification against the circuit's verification key
+ * Raised before the transaction is returned, so clients never sign a proof the
+ * relayer or program would reject
+ */
+export class ProofVerificationError extends ApiError {
+  constructor(mismatches: PublicInputMismatch[]) {
+    const message = mismatches.length > 0
+      ? `Generated proof does not verify: public input mismatch (${mismatches.map(m => m.input).join(', ')})`
+      : 'Generated proof does not verify against the verification key';
+    super(message, 500, 'PROOF_VERIFICATION_FAILED', { mismatches });
+  }
+}
+
+/**
+ * Send an error response
+ * ApiErrors keep their status and code, anything else is a 500
+ */
+export function sendError(res: Response, error: any): void {
+  if (error instanceof ProverBusyError || error instanceof SelfRelayRateLimitError) {
+    res.setHeader('Retry-After', String(error.retryAfterSeconds));
+  }
+
+  if (error instanceof ApiError) {
+    res.status(error.status).json({
+      error: error.message,
+      code: error.code,
+      ...(error.details && { details: error.details }),
+    });
+    return;
+  }
+
+  res.status(500).json({ error: error?.message || 'Unknown error' });
+}